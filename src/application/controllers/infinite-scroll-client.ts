@@ -0,0 +1,148 @@
+/**
+ * Infinite Scroll Client
+ *
+ * Keyed store of list controllers shared by lists with the same queryKey
+ * Follows SOLID, DRY, KISS principles
+ * Single Responsibility: Hold and invalidate shared lists
+ */
+
+import type { InfiniteScrollConfig } from "../../domain/types/infinite-scroll-config";
+import type { InfiniteScrollState } from "../../domain/types/infinite-scroll-state";
+import { hashQueryKey } from "../../domain/utils/query-key-utils";
+import {
+  createInfiniteScrollController,
+  InfiniteScrollController,
+} from "./infinite-scroll.controller";
+
+export interface InfiniteScrollClientOptions {
+  /**
+   * Optional: Maximum number of stored queries
+   * Least recently used queries without mounted lists are dropped first
+   * Default: 20
+   */
+  maxQueries?: number;
+}
+
+/**
+ * Client of an InfiniteScrollProvider
+ *
+ * @example
+ * ```ts
+ * const client = new InfiniteScrollClient();
+ *
+ * // After creating a post in a form screen
+ * client.setQueryData<Post>("feed", (pages) => [[post, ...pages[0]], ...pages.slice(1)]);
+ * await client.invalidate("feed");
+ * ```
+ */
+export class InfiniteScrollClient {
+  private queries = new Map<string, InfiniteScrollController<unknown>>();
+  private maxQueries: number;
+
+  constructor(options: InfiniteScrollClientOptions = {}) {
+    this.maxQueries = options.maxQueries ?? 20;
+  }
+
+  /**
+   * Current state of a query, if stored
+   */
+  getQueryState<T>(queryKey: unknown): InfiniteScrollState<T> | null {
+    return this.find<T>(hashQueryKey(queryKey))?.getSnapshot() ?? null;
+  }
+
+  /**
+   * Replace the loaded pages of a query (no-op if it is not loaded)
+   * @param updater - Receives the current pages, returns the new pages
+   */
+  setQueryData<T>(queryKey: unknown, updater: (pages: T[][]) => T[][]): void {
+    const controller = this.find<T>(hashQueryKey(queryKey));
+    if (!controller || controller.getSnapshot().pages.length === 0) return;
+    controller.setPages(updater);
+  }
+
+  /**
+   * Mark queries as stale: mounted lists refresh, others are dropped and
+   * load from scratch when next mounted
+   * @param queryKey - Query to invalidate (default: all queries)
+   */
+  async invalidate(queryKey?: unknown): Promise<void> {
+    const hashes =
+      queryKey === undefined
+        ? Array.from(this.queries.keys())
+        : [hashQueryKey(queryKey)];
+
+    await Promise.all(
+      hashes.map((hash) => {
+        const controller = this.queries.get(hash);
+        if (!controller) return undefined;
+        if (controller.getAttachedCount() > 0) {
+          return controller.getSnapshot().pages.length > 0
+            ? controller.refresh()
+            : controller.loadInitial();
+        }
+        controller.destroy();
+        this.queries.delete(hash);
+        return undefined;
+      }),
+    );
+  }
+
+  /**
+   * Load the first page of a query before a list using it is mounted
+   * Does nothing if the query is loaded or loading; errors end up in its state
+   * @param config - Config to load with, required unless a list already
+   * used the query
+   */
+  async prefetch<T, P = unknown>(
+    queryKey: unknown,
+    config?: InfiniteScrollConfig<T, P>,
+  ): Promise<void> {
+    const hash = hashQueryKey(queryKey);
+    const existing = this.find<T, P>(hash);
+    if (!existing && !config) {
+      throw new Error(`InfiniteScrollClient: No config for query ${hash}`);
+    }
+    const controller =
+      existing ?? this.getController<T, P>(hash, { ...config!, queryKey });
+    if (controller.getSnapshot().pages.length > 0 || controller.isFetching()) {
+      return;
+    }
+    await controller.loadInitial();
+  }
+
+  /**
+   * Get or create the controller of a hashed query key
+   * @internal Used by useInfiniteScroll
+   */
+  getController<T, P = unknown>(
+    hash: string,
+    config: InfiniteScrollConfig<T, P>,
+  ): InfiniteScrollController<T, P> {
+    let controller = this.find<T, P>(hash);
+    if (controller) {
+      // Keep Map order as least recently used first
+      this.queries.delete(hash);
+    } else {
+      controller = createInfiniteScrollController<T, P>(config);
+    }
+    this.queries.set(hash, controller as InfiniteScrollController<unknown>);
+    this.evict();
+    return controller;
+  }
+
+  private find<T, P = unknown>(
+    hash: string,
+  ): InfiniteScrollController<T, P> | undefined {
+    return this.queries.get(hash) as InfiniteScrollController<T, P> | undefined;
+  }
+
+  private evict(): void {
+    for (const [hash, controller] of this.queries) {
+      if (this.queries.size <= this.maxQueries) return;
+      if (controller.getAttachedCount() === 0 && !controller.isFetching()) {
+        controller.destroy();
+        this.queries.delete(hash);
+      }
+    }
+  }
+}
@@ -0,0 +1,1609 @@
+/**
+ * Infinite Scroll Controller
+ *
+ * Framework-agnostic pagination state machine for all pagination modes
+ * Follows SOLID, DRY, KISS principles
+ * Single Responsibility: Load, hold and mutate the pages of one list
+ */
+
+import type { InfiniteScrollConfig } from "../../domain/types/infinite-scroll-config";
+import type { CachedPages } from "../../domain/types/infinite-scroll-cache";
+import type { InfiniteScrollState } from "../../domain/types/infinite-scroll-state";
+import type { PageMeta } from "../../domain/types/page-window";
+import { PageCacheService } from "../services/page-cache.service";
+import { withRetry } from "../../domain/utils/retry-utils";
+import { createInfiniteScrollError } from "../../domain/utils/error-utils";
+import { isAbortError } from "../../domain/utils/abort-utils";
+import { hashQueryKey } from "../../domain/utils/query-key-utils";
+import {
+  getPrefetchDepth,
+  updateScrollVelocity,
+} from "../../domain/utils/prefetch-utils";
+import {
+  buildRows,
+  evictPages,
+  getEvictedKeys,
+  getPageIndexForRow,
+  getPageWindow,
+  isItemPlaceholder,
+  mergeRestoredPage,
+  syncEvictedKeys,
+} from "../../domain/utils/page-window-utils";
+import type { ItemPlaceholder } from "../../domain/utils/page-window-utils";
+import {
+  defaultItemKey,
+  diffItems,
+  insertIntoPages,
+  mapItemInPages,
+  mergePage,
+  repaginate,
+  revertItemChanges,
+} from "../../domain/utils/item-mutation-utils";
+import {
+  loadData,
+  loadMoreData,
+  loadPreviousData,
+  usesCursor,
+  isOffsetMode,
+  getRequestTarget,
+  createPageMeta,
+  fetchPage,
+  getInitialPage,
+  DEFAULT_CONFIG,
+} from "./pagination.helper";
+import type { StateUpdater } from "./pagination.helper";
+
+function createInitialState<T>(
+  initialPage: number,
+  totalItems?: number,
+): InfiniteScrollState<T> {
+  return {
+    items: [],
+    pages: [],
+    pageMeta: [],
+    duplicatesDropped: [],
+    currentPage: initialPage,
+    firstPage: initialPage,
+    offset: 0,
+    pageShift: 0,
+    cursor: null,
+    previousCursor: null,
+    edgeCursors: {},
+    hasMore: true,
+    hasPrevious: false,
+    isLoading: true,
+    isLoadingMore: false,
+    isLoadingPrevious: false,
+    isRefreshing: false,
+    isRevalidating: false,
+    retryAttempt: 0,
+    error: null,
+    initialError: null,
+    loadMoreError: null,
+    loadPreviousError: null,
+    refreshError: null,
+    isOffline: false,
+    newItemsCount: 0,
+    totalItems,
+  };
+}
+
+function createCachedState<T>(entry: CachedPages<T>): InfiniteScrollState<T> {
+  return {
+    items: entry.pages.flat(),
+    pages: entry.pages,
+    // Snapshots saved before lastFetchedAt was tracked date from savedAt
+    pageMeta: entry.pageMeta
+      ? entry.pageMeta.map((meta) => ({
+          ...meta,
+          lastFetchedAt: meta.lastFetchedAt ?? entry.savedAt,
+        }))
+      : entry.pages.map(() => createPageMeta({}, entry.savedAt)),
+    duplicatesDropped: entry.pages.map(() => 0),
+    currentPage: entry.currentPage,
+    firstPage: entry.firstPage,
+    offset: entry.offset ?? 0,
+    pageShift: entry.pageShift ?? 0,
+    cursor: entry.cursor,
+    previousCursor: entry.previousCursor,
+    edgeCursors: entry.edgeCursors ?? {},
+    hasMore: entry.hasMore,
+    hasPrevious: entry.hasPrevious,
+    isLoading: false,
+    isLoadingMore: false,
+    isLoadingPrevious: false,
+    isRefreshing: false,
+    isRevalidating: true,
+    retryAttempt: 0,
+    error: null,
+    initialError: null,
+    loadMoreError: null,
+    loadPreviousError: null,
+    refreshError: null,
+    isOffline: false,
+    newItemsCount: 0,
+    totalItems: entry.totalItems,
+  };
+}
+
+/**
+ * Pages around an optimistic mutation, to undo it if the server call fails
+ */
+interface MutationSnapshot<T> {
+  generation: number;
+  previous?: T[][];
+  applied?: T[][];
+}
+
+/**
+ * Upcoming page fetched ahead of loadMore
+ */
+interface PrefetchEntry<T> {
+  /**
+   * Request target the page was fetched for
+   */
+  key: string;
+  promise: Promise<StateUpdater<T> | null>;
+  applyPage?: StateUpdater<T>;
+}
+
+/**
+ * Identify the page the next loadMore would request
+ */
+function getNextPageKey<T, P>(
+  config: InfiniteScrollConfig<T, P>,
+  state: InfiniteScrollState<T>,
+): string {
+  return JSON.stringify({
+    ...getRequestTarget(config, state, "loadMore"),
+    shift: state.pageShift,
+  });
+}
+
+function getQueryKey<T, P>(config: InfiniteScrollConfig<T, P>): string {
+  return hashQueryKey(config.queryKey ?? config.params);
+}
+
+/**
+ * InfiniteScrollController
+ *
+ * Holds the state of one list and exposes every pagination operation
+ * Methods are bound, so they can be passed around as callbacks
+ */
+export class InfiniteScrollController<T, P = unknown> {
+  private config: InfiniteScrollConfig<T, P>;
+  private state: InfiniteScrollState<T>;
+  private listeners = new Set<() => void>();
+  private attachedCount = 0;
+
+  // Query shown by the list (lags behind config while debouncing)
+  private activeQuery: { key: string; params?: P };
+  private pendingQueryKey: string;
+  private queryTimer: ReturnType<typeof setTimeout> | null = null;
+  // Settled state of previously shown queries, least recently shown first
+  private retainedQueries = new Map<string, InfiniteScrollState<T>>();
+
+  private pageCache: PageCacheService<T> | null = null;
+  private pageCacheConfig: InfiniteScrollConfig<T>["cache"];
+
+  private isLoading = false;
+  private abortController: AbortController | null = null;
+  // Bumped whenever in-flight responses become stale
+  private generation = 0;
+
+  // Evicted pages being fetched again, by page id
+  private restoring = new Map<number, AbortController>();
+  private failedRestores = new Set<number>();
+  // Page closest to the viewport (by id, indices shift on prepend)
+  private anchorPageId: number | null = null;
+
+  // Upcoming pages fetched ahead, in order
+  private prefetchBuffer: PrefetchEntry<T>[] = [];
+  private prefetchController: AbortController | null = null;
+  // Forward scroll speed, measured from visible range updates
+  private scroll: { lastIndex: number; time: number; velocity?: number } | null =
+    null;
+  private fetchDuration: number | undefined;
+
+  // Head polling: newer items found but not shown yet, newest first
+  private newItems: T[] = [];
+  private pollTimer: ReturnType<typeof setInterval> | null = null;
+  private pollInterval = 0;
+  private pollController: AbortController | null = null;
+  private appActive = true;
+
+  // Loads requested while offline, run once back online
+  private online = true;
+  private pendingLoads = new Set<"more" | "previous">();
+
+  // Realtime subscription, active while attached and focused
+  private realtimeUnsubscribe: (() => void) | null = null;
+  private focused = true;
+
+  private optimisticSnapshot: MutationSnapshot<T> | null = null;
+  private rowsCache: {
+    state: InfiniteScrollState<T>;
+    rows: Array<T | ItemPlaceholder>;
+  } | null = null;
+
+  constructor(config: InfiniteScrollConfig<T, P>) {
+    this.config = config;
+    this.state = createInitialState<T>(getInitialPage(config), config.totalItems);
+    this.activeQuery = { key: getQueryKey(config), params: config.params };
+    this.pendingQueryKey = this.activeQuery.key;
+    this.updatePageCache();
+  }
+
+  /**
+   * Listen for state changes
+   * @returns Function removing the listener
+   */
+  subscribe = (listener: () => void): (() => void) => {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  };
+
+  /**
+   * Current state (a new object after every change)
+   */
+  getSnapshot = (): InfiniteScrollState<T> => this.state;
+
+  /**
+   * Items of the loaded pages, with placeholders for evicted items
+   */
+  getRows = (): Array<T | ItemPlaceholder> => {
+    if (!this.config.maxPagesInMemory) return this.state.items;
+    if (this.rowsCache?.state !== this.state) {
+      this.rowsCache = {
+        state: this.state,
+        rows: buildRows(
+          this.state.pages,
+          this.state.pageMeta,
+          this.config.getItemKey,
+        ),
+      };
+    }
+    return this.rowsCache.rows;
+  };
+
+  /**
+   * Whether a load, load-more, load-previous or refresh request is in flight
+   */
+  isFetching = (): boolean => this.isLoading;
+
+  /**
+   * Register a consumer (e.g. a mounted list)
+   * @returns Function unregistering it; once the last consumer is gone,
+   * in-flight requests are cancelled
+   */
+  attach = (): (() => void) => {
+    this.attachedCount += 1;
+    this.updatePolling();
+    this.updateSubscription();
+    let attached = true;
+    return () => {
+      if (!attached) return;
+      attached = false;
+      this.attachedCount -= 1;
+      if (this.attachedCount === 0) {
+        this.clearQueryTimer();
+        this.pendingQueryKey = this.activeQuery.key;
+        this.cancelInFlight();
+        this.updatePolling();
+        this.updateSubscription();
+        // No list shows the rows, so no threshold can be reached
+        this.setState((prev) => ({
+          ...prev,
+          newItemsCount: 0,
+          visibleRange: undefined,
+        }));
+      }
+    };
+  };
+
+  /**
+   * Report whether the app is in the foreground; head polling pauses
+   * while it is not (useInfiniteScroll reports AppState changes)
+   */
+  setAppActive = (active: boolean): void => {
+    if (active === this.appActive) return;
+    this.appActive = active;
+    this.updatePolling();
+    if (active && this.config.refetchOnAppForeground && this.isStale()) {
+      this.revalidate();
+    }
+  };
+
+  /**
+   * Number of registered consumers
+   */
+  getAttachedCount = (): number => this.attachedCount;
+
+  /**
+   * Report whether the device is online (config.connectivity)
+   * Coming back online runs the loads requested while offline and retries
+   * the ones that failed, while a list is attached
+   * @param options.resume - Set to false to only reset the flag, e.g. when
+   * the connectivity provider goes away
+   */
+  setOnline = (
+    online: boolean,
+    { resume = true }: { resume?: boolean } = {},
+  ): void => {
+    if (online === this.online) return;
+    this.online = online;
+    this.setState((prev) => ({ ...prev, isOffline: !online }));
+    if (!online || !resume || this.attachedCount === 0) return;
+
+    const pending = this.pendingLoads;
+    this.pendingLoads = new Set();
+    const { pages, initialError, loadMoreError, loadPreviousError } = this.state;
+    if (initialError) {
+      if (pages.length > 0) {
+        this.refresh();
+      } else {
+        this.loadInitial();
+      }
+      return;
+    }
+    if (pending.has("more") || loadMoreError) {
+      this.loadMore();
+    } else if (pending.has("previous") || loadPreviousError) {
+      this.loadPrevious();
+    }
+    this.prefetch();
+  };
+
+  /**
+   * Report whether the screen showing the list is focused; the realtime
+   * subscription is stopped while it is not (config.focusSource)
+   */
+  setFocused = (focused: boolean): void => {
+    if (focused === this.focused) return;
+    this.focused = focused;
+    this.updateSubscription();
+    if (focused && this.config.refetchOnFocus && this.isStale()) {
+      this.revalidate();
+    }
+  };
+
+  /**
+   * Update the config; a changed query key resets the list (after
+   * queryDebounce) and other changes apply to the next request
+   */
+  setConfig = (config: InfiniteScrollConfig<T, P>): void => {
+    this.config = config;
+    this.updatePolling();
+    this.updateSubscription();
+
+    // The cache of a new query applies once its pages are shown
+    const key = getQueryKey(config);
+    if (key === this.activeQuery.key) {
+      this.updatePageCache();
+    }
+    if (key === this.pendingQueryKey) return;
+    this.pendingQueryKey = key;
+    this.clearQueryTimer();
+    if (key === this.activeQuery.key) return;
+
+    const debounce = config.queryDebounce ?? 0;
+    if (debounce <= 0) {
+      this.switchQuery(key);
+      return;
+    }
+    this.queryTimer = setTimeout(() => {
+      this.queryTimer = null;
+      this.switchQuery(key);
+    }, debounce);
+  };
+
+  loadInitial = async (): Promise<void> => {
+    const config = this.getConfig();
+    if (this.isLoading) return;
+    const { signal, generation } = this.beginRequest();
+
+    try {
+      // Stale-while-revalidate: show cached pages while the first page loads
+      const cached = this.pageCache ? await this.pageCache.read() : null;
+
+      if (!this.isCurrent(generation)) return;
+      this.setState((prev) =>
+        cached
+          ? createCachedState<T>(cached)
+          : { ...prev, isLoading: true, error: null, initialError: null },
+      );
+
+      try {
+        const newState = await withRetry(
+          () =>
+            loadData(
+              config,
+              getInitialPage(config),
+              this.getPageSize(),
+              config.totalItems,
+              signal,
+            ),
+          config.retry,
+          this.handleRetry,
+          signal,
+        );
+        if (this.isCurrent(generation)) {
+          this.setState(newState);
+        }
+      } catch (error) {
+        if (this.isCurrent(generation)) {
+          // A failed revalidation keeps the cached pages on screen
+          const initialError = createInfiniteScrollError(
+            error,
+            "initial",
+            getRequestTarget(config, this.state, "initial"),
+          );
+          this.setState((prev) => ({
+            ...prev,
+            isLoading: false,
+            isRevalidating: false,
+            retryAttempt: 0,
+            error: initialError.message,
+            initialError,
+          }));
+        }
+      }
+    } finally {
+      this.endRequest(generation);
+    }
+  };
+
+  loadMore = async (): Promise<void> => {
+    const config = this.getConfig();
+    const state = this.state;
+    if (
+      this.isLoading ||
+      !state.hasMore ||
+      state.isLoadingMore ||
+      state.isLoading
+    ) {
+      return;
+    }
+
+    if (usesCursor(config) && !state.cursor) return;
+
+    const prefetched = this.takePrefetched(state);
+    if (prefetched?.applyPage) {
+      const { applyPage } = prefetched;
+      this.setState((prev) => ({ ...prev, ...applyPage(prev) }));
+      return;
+    }
+
+    // Buffered pages are still shown offline; fetching waits for the network
+    if (!this.online && !prefetched) {
+      this.pendingLoads.add("more");
+      return;
+    }
+
+    const { signal, generation } = this.beginRequest();
+    this.setState((prev) => ({
+      ...prev,
+      isLoadingMore: true,
+      error: null,
+      loadMoreError: null,
+    }));
+
+    try {
+      // Wait for a prefetch still in flight; fetch normally if it failed
+      const applyPage =
+        (prefetched && (await prefetched.promise)) ||
+        (await withRetry(
+          () => loadMoreData(config, state, this.getPageSize(), signal),
+          config.retry,
+          this.handleRetry,
+          signal,
+        ));
+      if (this.isCurrent(generation)) {
+        this.setState((prev) => ({ ...prev, ...applyPage(prev) }));
+      }
+    } catch (error) {
+      if (this.isCurrent(generation)) {
+        const loadMoreError = createInfiniteScrollError(
+          error,
+          "loadMore",
+          getRequestTarget(config, state, "loadMore"),
+        );
+        this.setState((prev) => ({
+          ...prev,
+          isLoadingMore: false,
+          retryAttempt: 0,
+          error: loadMoreError.message,
+          loadMoreError,
+        }));
+      }
+    } finally {
+      this.endRequest(generation);
+    }
+  };
+
+  loadPrevious = async (): Promise<void> => {
+    const config = this.getConfig();
+    const state = this.state;
+    if (
+      this.isLoading ||
+      !state.hasPrevious ||
+      state.isLoadingPrevious ||
+      state.isLoading
+    ) {
+      return;
+    }
+
+    if (usesCursor(config) && !state.previousCursor) return;
+
+    if (!this.online) {
+      this.pendingLoads.add("previous");
+      return;
+    }
+
+    const { signal, generation } = this.beginRequest();
+    this.setState((prev) => ({
+      ...prev,
+      isLoadingPrevious: true,
+      error: null,
+      loadPreviousError: null,
+    }));
+
+    try {
+      const applyPage = await withRetry(
+        () => loadPreviousData(config, state, this.getPageSize(), signal),
+        config.retry,
+        this.handleRetry,
+        signal,
+      );
+      if (this.isCurrent(generation)) {
+        this.setState((prev) => ({ ...prev, ...applyPage(prev) }));
+      }
+    } catch (error) {
+      if (this.isCurrent(generation)) {
+        const loadPreviousError = createInfiniteScrollError(
+          error,
+          "loadPrevious",
+          getRequestTarget(config, state, "loadPrevious"),
+        );
+        this.setState((prev) => ({
+          ...prev,
+          isLoadingPrevious: false,
+          retryAttempt: 0,
+          error: loadPreviousError.message,
+          loadPreviousError,
+        }));
+      }
+    } finally {
+      this.endRequest(generation);
+    }
+  };
+
+  refresh = async (): Promise<void> => {
+    const config = this.getConfig();
+    // Refresh supersedes any in-flight load
+    this.cancelInFlight();
+    const { signal, generation } = this.beginRequest();
+
+    // Items found by head polling were dropped with the in-flight requests
+    this.setState((prev) => ({
+      ...prev,
+      isLoadingMore: false,
+      isLoadingPrevious: false,
+      isRefreshing: true,
+      error: null,
+      refreshError: null,
+      newItemsCount: 0,
+    }));
+
+    try {
+      const apply = await this.loadRefreshed(config, signal);
+      if (this.isCurrent(generation)) {
+        this.setState((prev) => ({ ...prev, ...apply(prev) }));
+      }
+    } catch (error) {
+      if (this.isCurrent(generation)) {
+        const refreshError = createInfiniteScrollError(
+          error,
+          "refresh",
+          getRequestTarget(config, this.state, "refresh"),
+        );
+        this.setState((prev) => ({
+          ...prev,
+          isRefreshing: false,
+          retryAttempt: 0,
+          error: refreshError.message,
+          refreshError,
+        }));
+      }
+    } finally {
+      this.endRequest(generation);
+    }
+  };
+
+  /**
+   * Fetch the first page again in the background and splice it in by
+   * getItemKey, keeping deeper pages; failures are ignored
+   */
+  revalidate = async (): Promise<void> => {
+    const config = this.getConfig();
+    const { pages, isRevalidating } = this.state;
+    if (this.isLoading || isRevalidating || pages.length === 0 || !this.online) {
+      return;
+    }
+    // The fresh first page is merged by key into the loaded one
+    if (!config.getItemKey || this.getHeadPageIndex(this.state) < 0) return;
+    const { signal, generation } = this.beginRequest();
+    this.setState((prev) => ({ ...prev, isRevalidating: true }));
+
+    try {
+      const fresh = await withRetry(
+        () =>
+          loadData(
+            config,
+            getInitialPage(config),
+            this.getPageSize(),
+            config.totalItems,
+            signal,
+          ),
+        config.retry,
+        this.handleRetry,
+        signal,
+      );
+      if (this.isCurrent(generation)) {
+        this.setState((prev) => ({
+          ...(this.spliceFirstPage(prev, fresh) ?? {
+            ...fresh,
+            visibleRange: prev.visibleRange,
+          }),
+          isRevalidating: false,
+          retryAttempt: 0,
+        }));
+      }
+    } catch {
+      // Silent: the loaded data stays until the next refresh
+      if (this.isCurrent(generation)) {
+        this.setState((prev) => ({
+          ...prev,
+          isRevalidating: false,
+          retryAttempt: 0,
+        }));
+      }
+    } finally {
+      this.endRequest(generation);
+    }
+  };
+
+  reset = (): void => {
+    this.cancelInFlight();
+    this.setState(this.createInitialState());
+    this.updateSubscription(true);
+  };
+
+  /**
+   * Prepend the items found by head polling to the first page
+   * Deeper pages stay loaded
+   */
+  showNewItems = (): void => {
+    const newItems = this.newItems;
+    if (newItems.length === 0) {
+      this.setState((prev) =>
+        prev.newItemsCount === 0 ? prev : { ...prev, newItemsCount: 0 },
+      );
+      return;
+    }
+    this.newItems = [];
+    this.mutatePages(
+      (pages) =>
+        pages.length === 0
+          ? [newItems]
+          : [[...newItems, ...pages[0]], ...pages.slice(1)],
+      newItems.length,
+    );
+    this.setState((prev) => ({ ...prev, newItemsCount: 0 }));
+  };
+
+  insertItem = (item: T, position: "start" | "end" = "start"): void => {
+    this.mutatePages((pages) => insertIntoPages(pages, item, position), 1);
+  };
+
+  updateItem = (key: string, updater: (item: T) => T): void => {
+    this.mutatePages((pages) =>
+      mapItemInPages(pages, key, updater, this.getItemKey()),
+    );
+  };
+
+  removeItem = (key: string): void => {
+    this.mutatePages(
+      (pages) => mapItemInPages(pages, key, () => null, this.getItemKey()),
+      -1,
+    );
+  };
+
+  setItems = (next: T[] | ((items: T[]) => T[])): void => {
+    this.mutatePages((pages) =>
+      repaginate(typeof next === "function" ? next(pages.flat()) : next, pages),
+    );
+  };
+
+  /**
+   * Replace the loaded pages
+   * @param transform - Receives the current pages, returns the new pages
+   */
+  setPages = (transform: (pages: T[][]) => T[][]): void => {
+    this.mutatePages(transform);
+  };
+
+  optimistic = async <R>(
+    mutation: () => void,
+    serverCall: () => Promise<R>,
+  ): Promise<R> => {
+    const snapshot: MutationSnapshot<T> = { generation: this.generation };
+    this.optimisticSnapshot = snapshot;
+    try {
+      mutation();
+    } finally {
+      this.optimisticSnapshot = null;
+    }
+    snapshot.applied = this.state.pages;
+
+    try {
+      return await serverCall();
+    } catch (error) {
+      // Skip rollback if the list was reset or refreshed in the meantime
+      if (this.isCurrent(snapshot.generation)) {
+        this.rollback(snapshot);
+      }
+      throw error;
+    }
+  };
+
+  /**
+   * Report the visible row range (indices into rows)
+   */
+  setVisibleRange = (firstIndex: number, lastIndex: number): void => {
+    const now = Date.now();
+    const previous = this.scroll;
+    this.scroll = {
+      lastIndex,
+      time: now,
+      velocity: previous
+        ? updateScrollVelocity(
+            previous.velocity,
+            lastIndex - previous.lastIndex,
+            now - previous.time,
+          )
+        : undefined,
+    };
+    // Faster scrolling may call for a deeper buffer
+    this.prefetch();
+
+    const range = this.state.visibleRange;
+    if (range?.firstIndex !== firstIndex || range.lastIndex !== lastIndex) {
+      this.setState((prev) => ({
+        ...prev,
+        visibleRange: { firstIndex, lastIndex },
+      }));
+    }
+
+    const { pages, pageMeta } = this.state;
+    if (pages.length === 0) return;
+    const middle = Math.floor((firstIndex + lastIndex) / 2);
+    const meta = pageMeta[getPageIndexForRow(pages, pageMeta, middle)];
+    if (meta && meta.id !== this.anchorPageId) {
+      this.anchorPageId = meta.id;
+      this.failedRestores.clear();
+      this.updatePageWindow();
+    }
+  };
+
+  /**
+   * Cancel requests and timers and remove all listeners
+   */
+  destroy = (): void => {
+    this.clearQueryTimer();
+    this.cancelInFlight();
+    this.attachedCount = 0;
+    this.updatePolling();
+    this.updateSubscription();
+    this.listeners.clear();
+  };
+
+  /**
+   * Latest config with the params of the active query
+   */
+  private getConfig(): InfiniteScrollConfig<T, P> {
+    return { ...this.config, params: this.activeQuery.params };
+  }
+
+  private getPageSize(): number {
+    return this.config.pageSize ?? DEFAULT_CONFIG.pageSize;
+  }
+
+  private getItemKey() {
+    return this.config.getItemKey ?? defaultItemKey;
+  }
+
+  private createInitialState(): InfiniteScrollState<T> {
+    return createInitialState<T>(
+      getInitialPage(this.config),
+      this.config.totalItems,
+    );
+  }
+
+  private setState(
+    update:
+      | InfiniteScrollState<T>
+      | ((prev: InfiniteScrollState<T>) => InfiniteScrollState<T>),
+  ): void {
+    const prev = this.state;
+    let next = typeof update === "function" ? update(prev) : update;
+    if (next === prev) return;
+    // Replaced states (loaded, restored, reset) keep the connectivity flag
+    if (next.isOffline === this.online) {
+      next = { ...next, isOffline: !this.online };
+    }
+    this.state = next;
+    this.listeners.forEach((listener) => listener());
+
+    if (next.pages !== prev.pages || next.pageMeta !== prev.pageMeta) {
+      this.updatePageWindow();
+    }
+    if (
+      next.pages.length !== prev.pages.length ||
+      next.hasMore !== prev.hasMore ||
+      next.isLoading !== prev.isLoading ||
+      next.isLoadingMore !== prev.isLoadingMore ||
+      next.isRefreshing !== prev.isRefreshing
+    ) {
+      this.prefetch();
+    }
+    this.writePageCache(prev);
+    this.checkThreshold();
+  }
+
+  private handleRetry = (attempt: number): void => {
+    this.setState((prev) => ({ ...prev, retryAttempt: attempt }));
+  };
+
+  /**
+   * Abort the in-flight request and discard any late response
+   */
+  private cancelInFlight(): void {
+    this.abortController?.abort();
+    this.abortController = null;
+    this.restoring.forEach((controller) => controller.abort());
+    this.restoring.clear();
+    this.prefetchController?.abort();
+    this.prefetchController = null;
+    this.prefetchBuffer = [];
+    this.pollController?.abort();
+    this.pollController = null;
+    this.newItems = [];
+    this.pendingLoads.clear();
+    this.generation += 1;
+    this.isLoading = false;
+  }
+
+  private beginRequest() {
+    this.isLoading = true;
+    const controller = new AbortController();
+    this.abortController = controller;
+    return { signal: controller.signal, generation: this.generation };
+  }
+
+  private isCurrent(generation: number): boolean {
+    return generation === this.generation;
+  }
+
+  private endRequest(generation: number): void {
+    if (generation === this.generation) {
+      this.isLoading = false;
+      this.abortController = null;
+      this.prefetch();
+      this.checkThreshold();
+    }
+  }
+
+  /**
+   * Load more (or previous) items once the visible range is within
+   * threshold rows of the end (or start); thresholdMode "items" only
+   */
+  private checkThreshold(): void {
+    const { thresholdMode = "items", autoLoad = DEFAULT_CONFIG.autoLoad } =
+      this.config;
+    const { visibleRange, hasMore, hasPrevious, loadMoreError, loadPreviousError } =
+      this.state;
+    if (thresholdMode !== "items" || !autoLoad || !visibleRange) return;
+
+    // Failed pages are retried from the inline error row, not by scrolling
+    const threshold = this.config.threshold ?? DEFAULT_CONFIG.threshold;
+    const rowCount = this.getRows().length;
+    if (
+      hasMore &&
+      !loadMoreError &&
+      visibleRange.lastIndex >= rowCount - 1 - threshold
+    ) {
+      this.loadMore();
+    } else if (
+      hasPrevious &&
+      !loadPreviousError &&
+      visibleRange.firstIndex <= threshold
+    ) {
+      this.loadPrevious();
+    }
+  }
+
+  private clearQueryTimer(): void {
+    if (this.queryTimer !== null) {
+      clearTimeout(this.queryTimer);
+      this.queryTimer = null;
+    }
+  }
+
+  /**
+   * Show another query, restoring its retained pages or loading it
+   */
+  private switchQuery(key: string): void {
+    const previousKey = this.activeQuery.key;
+    this.cancelInFlight();
+    this.activeQuery = { key, params: this.config.params };
+    this.anchorPageId = null;
+    this.updatePageCache();
+
+    // Keep the pages of the query being left, restore the one shown next
+    const retainQueries = this.config.retainQueries ?? DEFAULT_CONFIG.retainQueries;
+    const current = this.state;
+    if (retainQueries > 0 && current.pages.length > 0) {
+      this.retainedQueries.delete(previousKey);
+      this.retainedQueries.set(previousKey, {
+        ...current,
+        isLoadingMore: false,
+        isLoadingPrevious: false,
+        isRefreshing: false,
+        isRevalidating: false,
+        retryAttempt: 0,
+        newItemsCount: 0,
+      });
+      while (this.retainedQueries.size > retainQueries) {
+        this.retainedQueries.delete(
+          this.retainedQueries.keys().next().value as string,
+        );
+      }
+    }
+
+    // The subscription listens with the params of the shown query
+    this.updateSubscription(true);
+
+    const restored = this.retainedQueries.get(key);
+    this.retainedQueries.delete(key);
+    if (restored) {
+      this.setState(restored);
+      return;
+    }
+    this.setState(this.createInitialState());
+    if (this.config.autoLoad !== false) {
+      this.loadInitial();
+    }
+  }
+
+  /**
+   * Fetch the data of a refresh according to config.refreshStrategy
+   */
+  private async loadRefreshed(
+    config: InfiniteScrollConfig<T, P>,
+    signal: AbortSignal,
+  ): Promise<StateUpdater<T>> {
+    const strategy = config.refreshStrategy ?? "reset";
+    const loaded = this.state;
+    const first = await withRetry(
+      () =>
+        loadData(
+          config,
+          getInitialPage(config),
+          this.getPageSize(),
+          config.totalItems,
+          signal,
+        ),
+      config.retry,
+      this.handleRetry,
+      signal,
+    );
+
+    // Merging needs item keys and the loaded first page sharing an item
+    // with the fresh one; otherwise reset
+    if (
+      strategy === "merge-head" &&
+      config.getItemKey &&
+      this.getHeadPageIndex(loaded) >= 0
+    ) {
+      return (prev) => ({
+        ...(this.spliceFirstPage(prev, first) ?? {
+          ...first,
+          visibleRange: prev.visibleRange,
+        }),
+        isRefreshing: false,
+        retryAttempt: 0,
+        newItemsCount: 0,
+      });
+    }
+
+    let state = first;
+    if (strategy === "refetch-all") {
+      const previousPages = loaded.pageMeta.filter(
+        (meta) => meta.request.previous,
+      ).length;
+      const nextPages = loaded.pageMeta.length - previousPages - 1;
+      // Pages are requested one at a time, as each needs the last cursor
+      for (let i = 0; i < nextPages && state.hasMore; i++) {
+        const current = state;
+        const apply = await withRetry(
+          () => loadMoreData(config, current, this.getPageSize(), signal),
+          config.retry,
+          this.handleRetry,
+          signal,
+        );
+        state = { ...state, ...apply(state) };
+      }
+      for (let i = 0; i < previousPages && state.hasPrevious; i++) {
+        const current = state;
+        const apply = await withRetry(
+          () => loadPreviousData(config, current, this.getPageSize(), signal),
+          config.retry,
+          this.handleRetry,
+          signal,
+        );
+        state = { ...state, ...apply(state) };
+      }
+    }
+
+    const refreshed = state;
+    return (prev) => ({ ...refreshed, visibleRange: prev.visibleRange });
+  }
+
+  /**
+   * Whether a mounted list shows a first page fetched more than staleTime ago
+   */
+  private isStale(): boolean {
+    if (this.attachedCount === 0) return false;
+    const staleTime = this.config.staleTime ?? 0;
+    const head = this.state.pageMeta.find((meta) => !meta.request.previous);
+    return head !== undefined && Date.now() - head.lastFetchedAt >= staleTime;
+  }
+
+  /**
+   * Merge a freshly loaded version of the first page (the initial page, not
+   * a previous one) into it and shift the next request by as many rows;
+   * null when the two versions share no item
+   */
+  private spliceFirstPage(
+    prev: InfiniteScrollState<T>,
+    fresh: InfiniteScrollState<T>,
+  ): InfiniteScrollState<T> | null {
+    const { getItemKey } = this.config;
+    const index = this.getHeadPageIndex(prev);
+    if (!getItemKey || index < 0) return null;
+
+    // The last item in both versions tells how far the server shifted the
+    // following items; without one, the fresh page does not connect
+    const freshItems = fresh.pages[0] ?? [];
+    const start = prev.pages
+      .slice(0, index)
+      .reduce((count, page) => count + page.length, 0);
+    const head = prev.pages[index].map((item, i) => getItemKey(item, start + i));
+    const freshKeys = freshItems.map((item, i) => getItemKey(item, i));
+    let last = freshKeys.length - 1;
+    while (last >= 0 && !head.includes(freshKeys[last])) last--;
+    if (last < 0) return null;
+    const moved = last - head.indexOf(freshKeys[last]);
+
+    const pages = mergePage(prev.pages, index, freshItems, getItemKey);
+    const pageMeta = prev.pageMeta.map((meta, i) =>
+      i === index
+        ? { id: meta.id, request: meta.request, lastFetchedAt: Date.now() }
+        : meta,
+    );
+
+    // Newer items push the following ones back on the server, so the next
+    // page request moves past the ones already loaded
+    let { offset, currentPage, pageShift } = prev;
+    if (isOffsetMode(this.config)) {
+      offset += moved;
+    } else if (!usesCursor(this.config)) {
+      const pageSize = this.getPageSize();
+      const shift = pageShift + moved;
+      currentPage += Math.floor(shift / pageSize);
+      pageShift = shift - Math.floor(shift / pageSize) * pageSize;
+    }
+    return {
+      ...prev,
+      pages,
+      pageMeta,
+      items: pages.flat(),
+      offset,
+      currentPage,
+      pageShift,
+      totalItems: fresh.totalItems ?? prev.totalItems,
+    };
+  }
+
+  /**
+   * Index of the first page (the initial page, not a previous one), or -1
+   * if it is not loaded or evicted (its items cannot be merged)
+   */
+  private getHeadPageIndex(state: InfiniteScrollState<T>): number {
+    const index = state.pageMeta.findIndex((meta) => !meta.request.previous);
+    return index >= 0 && !state.pageMeta[index].evictedKeys ? index : -1;
+  }
+
+  /**
+   * Start, restart or stop the head polling timer: it runs while the list
+   * is attached, the app is active and headPolling is configured
+   */
+  private updatePolling(): void {
+    const { headPolling } = this.config;
+    const interval =
+      headPolling && this.attachedCount > 0 && this.appActive
+        ? headPolling.interval ?? 30000
+        : 0;
+    if (interval === this.pollInterval) return;
+
+    if (this.pollTimer !== null) {
+      clearInterval(this.pollTimer);
+      this.pollTimer = null;
+    }
+    this.pollController?.abort();
+    this.pollController = null;
+    this.pollInterval = interval;
+    if (interval > 0) {
+      this.pollTimer = setInterval(() => {
+        this.pollHead();
+      }, interval);
+    }
+  }
+
+  /**
+   * Start or stop the realtime subscription: it is active while the list
+   * is attached, focused and config.subscribe is set
+   * @param restart - Start a fresh subscription (after a reset)
+   */
+  private updateSubscription(restart = false): void {
+    const { subscribe } = this.config;
+    const active = subscribe !== undefined && this.attachedCount > 0 && this.focused;
+
+    if (this.realtimeUnsubscribe && (!active || restart)) {
+      const unsubscribe = this.realtimeUnsubscribe;
+      this.realtimeUnsubscribe = null;
+      unsubscribe();
+    }
+    if (!subscribe || !active || this.realtimeUnsubscribe) return;
+
+    // Events pushed after unsubscribing are dropped
+    let subscribed = true;
+    const unsubscribe = subscribe(
+      {
+        added: (item, position) => {
+          if (subscribed) this.applyAdded(item, position);
+        },
+        modified: (item) => {
+          if (subscribed) this.applyModified(item);
+        },
+        removed: (item) => {
+          if (subscribed) this.applyRemoved(item);
+        },
+      },
+      this.activeQuery.params,
+    );
+    this.realtimeUnsubscribe = () => {
+      subscribed = false;
+      unsubscribe();
+    };
+  }
+
+  /**
+   * Insert a pushed item, or replace it if it is already loaded
+   */
+  private applyAdded(item: T, position: "start" | "end" = "start"): void {
+    const { getItemKey } = this.config;
+    const { items, pages, pageMeta, hasMore } = this.state;
+    if (!getItemKey || pages.length === 0) return;
+
+    const key = getItemKey(item, position === "start" ? 0 : items.length);
+    if (items.some((existing, index) => getItemKey(existing, index) === key)) {
+      this.applyModified(item);
+      return;
+    }
+    // Items of evicted pages are fetched again when scrolled back to
+    if (getEvictedKeys(pageMeta).includes(key)) return;
+    // The item belongs after pages that are not loaded yet
+    if (position === "end" && hasMore) return;
+    this.insertItem(item, position);
+  }
+
+  private applyModified(item: T): void {
+    const { getItemKey } = this.config;
+    if (!getItemKey) return;
+    this.updateItem(getItemKey(item, 0), () => item);
+  }
+
+  private applyRemoved(item: T): void {
+    const { getItemKey } = this.config;
+    if (!getItemKey) return;
+    this.removeItem(getItemKey(item, 0));
+  }
+
+  /**
+   * Fetch items newer than the newest known item
+   * Failed polls are ignored; the next interval tries again
+   */
+  private async pollHead(): Promise<void> {
+    const config = this.getConfig();
+    const { headPolling } = config;
+    const current = this.state;
+    // The head of an evicted first page is not in memory: wait until it is
+    const head = this.getRows()[0];
+    const newest = this.newItems[0] ?? head;
+    if (
+      !headPolling ||
+      !this.online ||
+      this.pollController ||
+      this.isLoading ||
+      current.isRefreshing ||
+      newest === undefined ||
+      isItemPlaceholder(newest)
+    ) {
+      return;
+    }
+
+    const controller = new AbortController();
+    const generation = this.generation;
+    this.pollController = controller;
+    try {
+      const fetched = await headPolling.fetchNewer(
+        newest,
+        controller.signal,
+        config.params,
+      );
+      if (!this.isCurrent(generation) || controller.signal.aborted) return;
+
+      // Skip items already shown or found, e.g. inserted with insertItem
+      // (index keys cannot identify items, so only with getItemKey)
+      const getKey = config.getItemKey;
+      let fresh = fetched;
+      if (getKey) {
+        const known = new Set([
+          ...[...this.newItems, ...this.state.items].map((item, index) =>
+            getKey(item, index),
+          ),
+          ...getEvictedKeys(this.state.pageMeta),
+        ]);
+        fresh = fetched.filter((item, index) => !known.has(getKey(item, index)));
+      }
+      if (fresh.length === 0) return;
+
+      this.newItems = [...fresh, ...this.newItems];
+      this.setState((prev) => ({
+        ...prev,
+        newItemsCount: this.newItems.length,
+      }));
+    } catch {
+      // Best effort: polling again later
+    } finally {
+      if (this.pollController === controller) {
+        this.pollController = null;
+      }
+    }
+  }
+
+  /**
+   * Apply a pages transform, recording the previous pages for an active optimistic()
+   */
+  private mutatePages(transform: (pages: T[][]) => T[][], totalDelta = 0): void {
+    const snapshot = this.optimisticSnapshot;
+    this.setState((prev) => {
+      if (snapshot && !snapshot.previous) {
+        snapshot.previous = prev.pages;
+      }
+      const pages = transform(prev.pages);
+      if (pages === prev.pages) return prev;
+      // Inserting into an empty list creates a page
+      const grew = pages.length > prev.pages.length;
+      const pageMeta = grew
+        ? pages.map((_, i) => prev.pageMeta[i] ?? createPageMeta({}))
+        : prev.pageMeta;
+      return {
+        ...prev,
+        pages,
+        items: pages.flat(),
+        pageMeta: syncEvictedKeys(
+          prev.pages,
+          pages,
+          pageMeta,
+          this.getItemKey(),
+        ),
+        duplicatesDropped: grew
+          ? pages.map((_, i) => prev.duplicatesDropped[i] ?? 0)
+          : prev.duplicatesDropped,
+        totalItems:
+          prev.totalItems === undefined
+            ? undefined
+            : Math.max(0, prev.totalItems + totalDelta),
+      };
+    });
+  }
+
+  /**
+   * Undo a failed optimistic mutation
+   * Only the items it touched are restored (by getItemKey), so pages loaded
+   * and edits made while the server call was pending are kept; without
+   * getItemKey the pages are restored only if nothing changed since
+   */
+  private rollback(snapshot: MutationSnapshot<T>): void {
+    const { previous, applied } = snapshot;
+    if (!previous || !applied) return;
+
+    const { getItemKey } = this.config;
+    if (!getItemKey) {
+      if (this.state.pages === applied) {
+        this.mutatePages(
+          () => previous,
+          previous.flat().length - applied.flat().length,
+        );
+      }
+      return;
+    }
+
+    const changes = diffItems(previous.flat(), applied.flat(), getItemKey);
+    this.mutatePages(
+      (pages) => revertItemChanges(pages, changes, getItemKey),
+      changes.removed.length - changes.inserted.size,
+    );
+  }
+
+  /**
+   * Remove and return the prefetched page for the next loadMore
+   * (the buffer is dropped if it no longer matches the list)
+   */
+  private takePrefetched(
+    current: InfiniteScrollState<T>,
+  ): PrefetchEntry<T> | null {
+    const buffer = this.prefetchBuffer;
+    if (buffer.length === 0) return null;
+    if (buffer[0].key === getNextPageKey(this.getConfig(), current)) {
+      return buffer.shift() ?? null;
+    }
+    this.prefetchController?.abort();
+    this.prefetchController = null;
+    this.prefetchBuffer = [];
+    return null;
+  }
+
+  /**
+   * Fill the prefetch buffer with upcoming pages, one request at a time
+   */
+  private async prefetch(): Promise<void> {
+    const config = this.getConfig();
+    const prefetchPages = config.prefetchPages ?? 0;
+    if (prefetchPages <= 0 || this.prefetchController || !this.online) return;
+    const current = this.state;
+    if (
+      this.isLoading ||
+      current.isLoading ||
+      current.isLoadingMore ||
+      current.isRefreshing ||
+      current.loadMoreError ||
+      !current.hasMore
+    ) {
+      return;
+    }
+
+    const controller = new AbortController();
+    const generation = this.generation;
+    const pageSize = this.getPageSize();
+    this.prefetchController = controller;
+
+    try {
+      // State as it will be once the buffered pages are appended
+      let projected = current;
+      for (const entry of this.prefetchBuffer) {
+        if (!entry.applyPage) return;
+        projected = { ...projected, ...entry.applyPage(projected) };
+      }
+
+      while (
+        this.prefetchBuffer.length <
+          getPrefetchDepth(
+            prefetchPages,
+            pageSize,
+            this.scroll?.velocity,
+            this.fetchDuration,
+          ) &&
+        projected.hasMore &&
+        (!usesCursor(config) || projected.cursor)
+      ) {
+        const startedAt = Date.now();
+        const entry: PrefetchEntry<T> = {
+          key: getNextPageKey(config, projected),
+          promise: loadMoreData(config, projected, pageSize, controller.signal).then(
+            (applyPage) => {
+              this.fetchDuration = Date.now() - startedAt;
+              return applyPage;
+            },
+            () => null,
+          ),
+        };
+        this.prefetchBuffer.push(entry);
+
+        const applyPage = await entry.promise;
+        if (!this.isCurrent(generation) || controller.signal.aborted) return;
+        if (!applyPage) {
+          // Failed pages are left to loadMore, which reports the error
+          const index = this.prefetchBuffer.indexOf(entry);
+          if (index >= 0) {
+            this.prefetchBuffer = this.prefetchBuffer.slice(0, index);
+          }
+          return;
+        }
+        entry.applyPage = applyPage;
+        projected = { ...projected, ...applyPage(projected) };
+      }
+    } finally {
+      if (this.prefetchController === controller) {
+        this.prefetchController = null;
+      }
+    }
+  }
+
+  /**
+   * Keep at most maxPagesInMemory pages around the viewport
+   */
+  private updatePageWindow(): void {
+    const { maxPagesInMemory } = this.config;
+    const { pages, pageMeta } = this.state;
+    if (!maxPagesInMemory || pages.length === 0) return;
+
+    const anchorIndex = pageMeta.findIndex((m) => m.id === this.anchorPageId);
+    const [start, end] = getPageWindow(
+      pageMeta.length,
+      anchorIndex >= 0 ? anchorIndex : pageMeta.length - 1,
+      maxPagesInMemory,
+    );
+
+    const outside = pageMeta
+      .map((meta, i) => ({ meta, i }))
+      .filter(({ meta, i }) => (i < start || i > end) && !meta.evictedKeys)
+      .map(({ i }) => i);
+    if (outside.length > 0) {
+      const evicted = evictPages(pages, pageMeta, outside, this.getItemKey());
+      // Re-enters updatePageWindow with nothing left to evict
+      this.setState((prev) => ({
+        ...prev,
+        ...evicted,
+        items: evicted.pages.flat(),
+      }));
+      return;
+    }
+
+    for (let i = start; i <= end; i++) {
+      const meta = pageMeta[i];
+      if (
+        meta.evictedKeys &&
+        !this.restoring.has(meta.id) &&
+        !this.failedRestores.has(meta.id)
+      ) {
+        this.restorePage(meta);
+      }
+    }
+  }
+
+  private async restorePage(meta: PageMeta): Promise<void> {
+    const config = this.getConfig();
+    const controller = new AbortController();
+    const generation = this.generation;
+    this.restoring.set(meta.id, controller);
+
+    try {
+      const items = await withRetry(
+        () => fetchPage(config, meta.request, this.getPageSize(), controller.signal),
+        config.retry,
+        undefined,
+        controller.signal,
+      );
+      if (!this.isCurrent(generation)) return;
+      this.setState((prev) => {
+        const index = prev.pageMeta.findIndex((m) => m.id === meta.id);
+        const evictedKeys = prev.pageMeta[index]?.evictedKeys;
+        if (!evictedKeys) return prev;
+        // Items added while the page was evicted stay
+        const restored = mergeRestoredPage(
+          prev.pages[index],
+          evictedKeys,
+          items,
+          this.getItemKey(),
+        );
+        const pages = prev.pages.map((page, i) =>
+          i === index ? restored : page,
+        );
+        const pageMeta = prev.pageMeta.map((m, i) =>
+          i === index
+            ? { id: m.id, request: m.request, lastFetchedAt: Date.now() }
+            : m,
+        );
+        return { ...prev, pages, pageMeta, items: pages.flat() };
+      });
+    } catch (error) {
+      // Placeholders stay; retried once the viewport moves to another page
+      if (!isAbortError(error)) {
+        this.failedRestores.add(meta.id);
+        console.warn(
+          "InfiniteScrollController: Failed to restore evicted page",
+          error,
+        );
+      }
+    } finally {
+      if (this.restoring.get(meta.id) === controller) {
+        this.restoring.delete(meta.id);
+      }
+    }
+  }
+
+  /**
+   * Recreate the page cache when its adapter or key changes
+   * Only the config of the shown query is applied, so pages are never
+   * written under the cache key of a query still debounced
+   */
+  private updatePageCache(): void {
+    const cache = this.config.cache;
+    const previous = this.pageCacheConfig;
+    if (cache?.adapter === previous?.adapter && cache?.key === previous?.key) {
+      return;
+    }
+    this.pageCacheConfig = cache;
+    this.pageCache = cache ? new PageCacheService<T>(cache) : null;
+  }
+
+  /**
+   * Write loaded pages back to the cache (skips hydrated, not yet revalidated data)
+   */
+  private writePageCache(prev: InfiniteScrollState<T>): void {
+    const state = this.state;
+    if (
+      !this.pageCache ||
+      state.pages.length === 0 ||
+      state.isLoading ||
+      state.isRevalidating
+    ) {
+      return;
+    }
+    if (
+      state.pages === prev.pages &&
+      prev.isLoading === state.isLoading &&
+      prev.isRevalidating === state.isRevalidating
+    ) {
+      return;
+    }
+    this.pageCache.write(state);
+  }
+}
+
+/**
+ * Create a controller for a list
+ *
+ * @example
+ * ```ts
+ * const controller = createInfiniteScrollController({
+ *   paginationMode: "cursor",
+ *   fetchCursor: (cursor, pageSize) => api.getMessages({ cursor, pageSize }),
+ * });
+ *
+ * controller.subscribe(() => console.log(controller.getSnapshot().items.length));
+ * await controller.loadInitial();
+ * await controller.loadMore();
+ * ```
+ */
+export function createInfiniteScrollController<T, P = unknown>(
+  config: InfiniteScrollConfig<T, P>,
+): InfiniteScrollController<T, P> {
+  return new InfiniteScrollController<T, P>(config);
+}
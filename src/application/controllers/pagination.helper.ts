@@ -0,0 +1,534 @@
+/**
+ * Pagination Helper
+ * SOLID: Single Responsibility - Handle pagination operations
+ */
+
+import type {
+  CursorBasedConfig,
+  InfiniteScrollConfig,
+  OffsetBasedConfig,
+  OffsetResult,
+  PageBasedConfig,
+  PaginatedResult,
+  RelayBasedConfig,
+  RelayConnection,
+  RelayEdge,
+} from "../../domain/types/infinite-scroll-config";
+import type { InfiniteScrollState } from "../../domain/types/infinite-scroll-state";
+import type { InfiniteScrollOperation } from "../../domain/types/infinite-scroll-error";
+import type { PageMeta, PageRequest } from "../../domain/types/page-window";
+import { dedupePage } from "../../domain/utils/dedupe-utils";
+import { defaultItemKey } from "../../domain/utils/item-mutation-utils";
+import { getEvictedKeys } from "../../domain/utils/page-window-utils";
+
+export const DEFAULT_CONFIG = {
+  pageSize: 20,
+  threshold: 5,
+  autoLoad: true,
+  initialPage: 0,
+  retainQueries: 5,
+};
+
+/**
+ * Page (page-based mode) passed to loadData for the first page
+ */
+export function getInitialPage<T, P>(config: InfiniteScrollConfig<T, P>): number {
+  return "initialPage" in config
+    ? config.initialPage || 0
+    : DEFAULT_CONFIG.initialPage;
+}
+
+export function isCursorMode<T, P>(
+  config: InfiniteScrollConfig<T, P>,
+): config is Extract<InfiniteScrollConfig<T, P>, { paginationMode: "cursor" }> {
+  return "paginationMode" in config && config.paginationMode === "cursor";
+}
+
+export function isOffsetMode<T, P>(
+  config: InfiniteScrollConfig<T, P>,
+): config is OffsetBasedConfig<T, P> {
+  return "paginationMode" in config && config.paginationMode === "offset";
+}
+
+export function isRelayMode<T, P>(
+  config: InfiniteScrollConfig<T, P>,
+): config is RelayBasedConfig<T, P> {
+  return "paginationMode" in config && config.paginationMode === "relay";
+}
+
+/**
+ * Whether the config paginates with opaque cursors (cursor and Relay modes)
+ */
+export function usesCursor<T, P>(
+  config: InfiniteScrollConfig<T, P>,
+): config is CursorBasedConfig<T, P> | RelayBasedConfig<T, P> {
+  return isCursorMode(config) || isRelayMode(config);
+}
+
+/**
+ * Whether the config can page backwards from its first loaded page
+ */
+export function isBidirectional<T, P>(config: InfiniteScrollConfig<T, P>): boolean {
+  if (isCursorMode(config)) {
+    return typeof config.fetchPreviousCursor === "function";
+  }
+  if (isRelayMode(config)) {
+    return typeof config.fetchPreviousConnection === "function";
+  }
+  if (isOffsetMode(config)) {
+    return false;
+  }
+  return (config.initialPage ?? 0) > 0;
+}
+
+/**
+ * Page, offset or cursor requested by an operation (for error reporting)
+ */
+export function getRequestTarget<T, P>(
+  config: InfiniteScrollConfig<T, P>,
+  state: InfiniteScrollState<T>,
+  operation: InfiniteScrollOperation,
+): { page?: number; offset?: number; cursor?: string | null } {
+  const isInitial = operation === "initial" || operation === "refresh";
+
+  if (usesCursor(config)) {
+    if (isInitial) return {};
+    return {
+      cursor: operation === "loadPrevious" ? state.previousCursor : state.cursor,
+    };
+  }
+  if (isOffsetMode(config)) {
+    return { offset: isInitial ? config.initialOffset ?? 0 : state.offset };
+  }
+  if (isInitial) return { page: config.initialPage ?? 0 };
+  return {
+    page:
+      operation === "loadPrevious" ? state.firstPage - 1 : state.currentPage + 1,
+  };
+}
+
+function normalizeOffsetResult<T>(result: T[] | OffsetResult<T>): OffsetResult<T> {
+  return Array.isArray(result) ? { items: result } : result;
+}
+
+/**
+ * Decide hasMore for page and offset modes
+ * Priority: user hasMore callback, server total, full page check
+ */
+function resolveHasMore<T, P>(
+  config: PageBasedConfig<T, P> | OffsetBasedConfig<T, P>,
+  lastPage: T[],
+  allPages: T[][],
+  pageSize: number,
+  remaining?: number,
+): boolean {
+  if (config.hasMore) {
+    return config.hasMore(lastPage, allPages);
+  }
+  if (remaining !== undefined) {
+    return remaining > 0;
+  }
+  return lastPage.length >= pageSize;
+}
+
+/**
+ * Cursor page with Relay extras
+ */
+interface CursorPage<T> extends PaginatedResult<T> {
+  total?: number;
+  edgeCursors?: Map<T, string>;
+}
+
+function unwrapConnection<T>(connection: RelayConnection<T>): CursorPage<T> {
+  const edges = connection.edges.filter(
+    (edge): edge is RelayEdge<T> => edge !== null && edge !== undefined,
+  );
+  const edgeCursors = new Map<T, string>();
+  edges.forEach((edge) => {
+    if (edge.cursor) edgeCursors.set(edge.node, edge.cursor);
+  });
+
+  const { pageInfo } = connection;
+  const prevCursor = pageInfo.startCursor ?? null;
+  return {
+    items: edges.map((edge) => edge.node),
+    nextCursor: pageInfo.endCursor,
+    hasMore: pageInfo.hasNextPage,
+    prevCursor,
+    hasPrevious: pageInfo.hasPreviousPage ?? prevCursor !== null,
+    total: connection.totalCount,
+    edgeCursors,
+  };
+}
+
+async function fetchNextCursorPage<T, P>(
+  config: CursorBasedConfig<T, P> | RelayBasedConfig<T, P>,
+  cursor: string | undefined,
+  pageSize: number,
+  signal?: AbortSignal,
+): Promise<CursorPage<T>> {
+  if (isRelayMode(config)) {
+    return unwrapConnection(
+      await config.fetchConnection(
+        { first: pageSize, after: cursor },
+        signal,
+        config.params,
+      ),
+    );
+  }
+  return config.fetchCursor(cursor, pageSize, signal, config.params);
+}
+
+async function fetchPreviousCursorPage<T, P>(
+  config: CursorBasedConfig<T, P> | RelayBasedConfig<T, P>,
+  cursor: string,
+  pageSize: number,
+  signal?: AbortSignal,
+): Promise<CursorPage<T>> {
+  if (isRelayMode(config)) {
+    if (!config.fetchPreviousConnection) {
+      throw new Error("No previous connection fetcher configured");
+    }
+    return unwrapConnection(
+      await config.fetchPreviousConnection(
+        { last: pageSize, before: cursor },
+        signal,
+        config.params,
+      ),
+    );
+  }
+  if (!config.fetchPreviousCursor) {
+    throw new Error("No previous cursor fetcher configured");
+  }
+  return config.fetchPreviousCursor(cursor, pageSize, signal, config.params);
+}
+
+/**
+ * Record edge cursors of newly loaded nodes by item key
+ */
+function collectEdgeCursors<T, P>(
+  config: InfiniteScrollConfig<T, P>,
+  items: T[],
+  result: CursorPage<T>,
+  existing: Record<string, string>,
+): Record<string, string> {
+  if (!result.edgeCursors || result.edgeCursors.size === 0) return existing;
+
+  const getKey = config.getItemKey ?? defaultItemKey;
+  const edgeCursors = { ...existing };
+  items.forEach((item, index) => {
+    const cursor = result.edgeCursors?.get(item);
+    if (cursor !== undefined) edgeCursors[getKey(item, index)] = cursor;
+  });
+  return edgeCursors;
+}
+
+const EMPTY_PAGES = { pages: [], pageMeta: [], duplicatesDropped: [] };
+
+let nextPageId = 0;
+
+/**
+ * Create bookkeeping for a newly loaded page
+ * @param lastFetchedAt - When the page was fetched (default: now)
+ */
+export function createPageMeta(
+  request: PageRequest,
+  lastFetchedAt = Date.now(),
+): PageMeta {
+  return { id: nextPageId++, request, lastFetchedAt };
+}
+
+/**
+ * Deferred state change computed from the latest state when a fetch resolves,
+ * so mutations and evictions made while it was in flight are kept
+ */
+export type StateUpdater<T> = (
+  prev: InfiniteScrollState<T>,
+) => Partial<InfiniteScrollState<T>>;
+
+/**
+ * Add a fetched page before or after the loaded pages, removing duplicates
+ * when dedupe is enabled
+ */
+export function addPage<T, P>(
+  config: InfiniteScrollConfig<T, P>,
+  state: Pick<InfiniteScrollState<T>, "pages" | "pageMeta" | "duplicatesDropped">,
+  page: T[],
+  position: "append" | "prepend",
+  request: PageRequest,
+): Pick<
+  InfiniteScrollState<T>,
+  "items" | "pages" | "pageMeta" | "duplicatesDropped"
+> {
+  let pages = state.pages;
+  let dropped = 0;
+
+  if (config.dedupe && config.getItemKey) {
+    const strategy =
+      config.dedupe === true ? undefined : config.dedupe.strategy;
+    const result = dedupePage(
+      pages,
+      page,
+      config.getItemKey,
+      strategy,
+      getEvictedKeys(state.pageMeta),
+    );
+    pages = result.pages;
+    page = result.page;
+    dropped = result.dropped;
+  }
+
+  const meta = createPageMeta(request);
+  const append = position === "append";
+  const newPages = append ? [...pages, page] : [page, ...pages];
+  return {
+    items: newPages.flat(),
+    pages: newPages,
+    pageMeta: append ? [...state.pageMeta, meta] : [meta, ...state.pageMeta],
+    duplicatesDropped: append
+      ? [...state.duplicatesDropped, dropped]
+      : [dropped, ...state.duplicatesDropped],
+  };
+}
+
+/**
+ * Build the settled state for a freshly loaded first page
+ */
+function createLoadedState<T, P>(
+  config: InfiniteScrollConfig<T, P>,
+  page: T[],
+  request: PageRequest,
+  fields: Partial<InfiniteScrollState<T>> &
+    Pick<InfiniteScrollState<T>, "currentPage" | "hasMore">,
+): InfiniteScrollState<T> {
+  return {
+    ...addPage(config, EMPTY_PAGES, page, "append", request),
+    firstPage: fields.currentPage,
+    offset: 0,
+    pageShift: 0,
+    cursor: null,
+    previousCursor: null,
+    edgeCursors: {},
+    hasPrevious: false,
+    isLoading: false,
+    isLoadingMore: false,
+    isLoadingPrevious: false,
+    isRefreshing: false,
+    isRevalidating: false,
+    retryAttempt: 0,
+    error: null,
+    initialError: null,
+    loadMoreError: null,
+    loadPreviousError: null,
+    refreshError: null,
+    isOffline: false,
+    newItemsCount: 0,
+    ...fields,
+  };
+}
+
+export async function loadData<T, P>(
+  config: InfiniteScrollConfig<T, P>,
+  pageOrCursor: number | string | undefined,
+  pageSize: number,
+  totalItems?: number,
+  signal?: AbortSignal,
+): Promise<InfiniteScrollState<T>> {
+  if (usesCursor(config)) {
+    const cursor = typeof pageOrCursor === "string" ? pageOrCursor : undefined;
+    const result = await fetchNextCursorPage(config, cursor, pageSize, signal);
+    const previousCursor = result.prevCursor ?? null;
+    const loaded = createLoadedState(config, result.items, { cursor }, {
+      currentPage: 0,
+      cursor: result.nextCursor,
+      previousCursor,
+      hasMore: result.hasMore,
+      hasPrevious: isBidirectional(config) && (result.hasPrevious ?? previousCursor !== null),
+      totalItems: result.total ?? totalItems,
+    });
+    return {
+      ...loaded,
+      edgeCursors: collectEdgeCursors(config, loaded.items, result, {}),
+    };
+  } else if (isOffsetMode(config)) {
+    const offset = config.initialOffset ?? 0;
+    const result = normalizeOffsetResult(
+      await config.fetchOffset(offset, pageSize, signal, config.params),
+    );
+    const nextOffset = offset + result.items.length;
+    return createLoadedState(config, result.items, { offset }, {
+      currentPage: 0,
+      offset: nextOffset,
+      hasMore: resolveHasMore(
+        config,
+        result.items,
+        [result.items],
+        pageSize,
+        result.total === undefined ? undefined : result.total - nextOffset,
+      ),
+      totalItems: result.total ?? totalItems,
+    });
+  } else {
+    const page = pageOrCursor as number;
+    const data = await config.fetchData(page, pageSize, signal, config.params);
+    return createLoadedState(config, data, { page }, {
+      currentPage: page,
+      hasMore: resolveHasMore(config, data, [data], pageSize),
+      hasPrevious: page > 0,
+      totalItems,
+    });
+  }
+}
+
+export async function loadMoreData<T, P>(
+  config: InfiniteScrollConfig<T, P>,
+  state: InfiniteScrollState<T>,
+  pageSize: number,
+  signal?: AbortSignal,
+): Promise<StateUpdater<T>> {
+  const settled = {
+    isLoadingMore: false,
+    retryAttempt: 0,
+    error: null,
+    loadMoreError: null,
+  };
+
+  if (usesCursor(config)) {
+    const cursor = state.cursor;
+    if (!cursor) throw new Error("No cursor available");
+    const result = await fetchNextCursorPage(config, cursor, pageSize, signal);
+    return (prev) => {
+      const added = addPage(config, prev, result.items, "append", { cursor });
+      return {
+        ...added,
+        cursor: result.nextCursor,
+        edgeCursors: collectEdgeCursors(config, added.items, result, prev.edgeCursors),
+        hasMore: result.hasMore,
+        totalItems: result.total ?? prev.totalItems,
+        ...settled,
+      };
+    };
+  } else if (isOffsetMode(config)) {
+    const offset = state.offset;
+    const result = normalizeOffsetResult(
+      await config.fetchOffset(offset, pageSize, signal, config.params),
+    );
+    // Offset advances by what the server returned, even if dedupe drops items
+    const nextOffset = offset + result.items.length;
+    return (prev) => ({
+      ...addPage(config, prev, result.items, "append", { offset }),
+      currentPage: prev.currentPage + 1,
+      offset: nextOffset,
+      hasMore: resolveHasMore(
+        config,
+        result.items,
+        [...prev.pages, result.items],
+        pageSize,
+        result.total === undefined ? undefined : result.total - nextOffset,
+      ),
+      totalItems: result.total ?? prev.totalItems,
+      ...settled,
+    });
+  } else {
+    const nextPage = state.currentPage + 1;
+    const data = await config.fetchData(nextPage, pageSize, signal, config.params);
+    // Leading items shifted in from the previous page are already loaded
+    const page = data.slice(state.pageShift);
+    return (prev) => ({
+      ...addPage(config, prev, page, "append", { page: nextPage }),
+      currentPage: nextPage,
+      pageShift: 0,
+      hasMore: resolveHasMore(config, data, [...prev.pages, page], pageSize),
+      ...settled,
+    });
+  }
+}
+
+export async function loadPreviousData<T, P>(
+  config: InfiniteScrollConfig<T, P>,
+  state: InfiniteScrollState<T>,
+  pageSize: number,
+  signal?: AbortSignal,
+): Promise<StateUpdater<T>> {
+  const settled = {
+    isLoadingPrevious: false,
+    retryAttempt: 0,
+    error: null,
+    loadPreviousError: null,
+  };
+
+  if (usesCursor(config)) {
+    const cursor = state.previousCursor;
+    if (!cursor) {
+      throw new Error("No previous cursor available");
+    }
+    const result = await fetchPreviousCursorPage(config, cursor, pageSize, signal);
+    const previousCursor = result.prevCursor ?? null;
+    return (prev) => {
+      const added = addPage(config, prev, result.items, "prepend", {
+        cursor,
+        previous: true,
+      });
+      return {
+        ...added,
+        previousCursor,
+        edgeCursors: collectEdgeCursors(config, added.items, result, prev.edgeCursors),
+        hasPrevious: result.hasPrevious ?? previousCursor !== null,
+        totalItems: result.total ?? prev.totalItems,
+        ...settled,
+      };
+    };
+  } else if (isOffsetMode(config)) {
+    throw new Error("Offset mode does not support loading previous items");
+  } else {
+    const previousPage = state.firstPage - 1;
+    if (previousPage < 0) throw new Error("No previous page available");
+    const data = await config.fetchData(previousPage, pageSize, signal, config.params);
+    return (prev) => ({
+      ...addPage(config, prev, data, "prepend", {
+        page: previousPage,
+        previous: true,
+      }),
+      firstPage: previousPage,
+      hasPrevious: previousPage > 0,
+      ...settled,
+    });
+  }
+}
+
+/**
+ * Fetch a page again from the request that originally produced it
+ * (used to restore evicted pages)
+ */
+export async function fetchPage<T, P>(
+  config: InfiniteScrollConfig<T, P>,
+  request: PageRequest,
+  pageSize: number,
+  signal?: AbortSignal,
+): Promise<T[]> {
+  if (usesCursor(config)) {
+    if (request.previous && request.cursor !== undefined) {
+      const result = await fetchPreviousCursorPage(
+        config,
+        request.cursor,
+        pageSize,
+        signal,
+      );
+      return result.items;
+    }
+    const result = await fetchNextCursorPage(config, request.cursor, pageSize, signal);
+    return result.items;
+  } else if (isOffsetMode(config)) {
+    const result = normalizeOffsetResult(
+      await config.fetchOffset(
+        request.offset ?? 0,
+        pageSize,
+        signal,
+        config.params,
+      ),
+    );
+    return result.items;
+  } else {
+    return config.fetchData(request.page ?? 0, pageSize, signal, config.params);
+  }
+}
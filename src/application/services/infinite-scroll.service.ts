@@ -8,7 +8,12 @@
 
 import type { PageBasedConfig } from "../../domain/types/infinite-scroll-config";
 import { hasMoreItems } from "../../domain/utils/pagination-utils";
+import { isAbortError } from "../../domain/utils/abort-utils";
 
+/**
+ * @deprecated Page-based helpers only; use createInfiniteScrollController
+ * for a complete, framework-agnostic list in any pagination mode
+ */
 export class InfiniteScrollService<T> {
   private config: PageBasedConfig<T>;
 
@@ -19,10 +24,11 @@ export class InfiniteScrollService<T> {
   /**
    * Load data for a specific page
    */
-  async loadPage(page: number): Promise<T[]> {
+  async loadPage(page: number, signal?: AbortSignal): Promise<T[]> {
     try {
-      return await this.config.fetchData(page, this.getPageSize());
+      return await this.config.fetchData(page, this.getPageSize(), signal);
     } catch (error) {
+      if (isAbortError(error)) throw error;
       throw new Error(
         error instanceof Error ? error.message : "Failed to load data"
       );
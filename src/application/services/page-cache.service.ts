@@ -0,0 +1,102 @@
+/**
+ * Page Cache Service
+ *
+ * Application service for persisting loaded pages
+ * Follows SOLID, DRY, KISS principles
+ * Single Responsibility: Read and write list snapshots through a StorageAdapter
+ */
+
+import type {
+  CacheConfig,
+  CacheSerializer,
+  CachedPages,
+} from "../../domain/types/infinite-scroll-cache";
+import type { InfiniteScrollState } from "../../domain/types/infinite-scroll-state";
+
+function createJsonSerializer<T>(): CacheSerializer<T> {
+  return {
+    serialize: (entry) => JSON.stringify(entry),
+    deserialize: (raw) => JSON.parse(raw) as CachedPages<T>,
+  };
+}
+
+export class PageCacheService<T> {
+  private config: CacheConfig<T>;
+  private serializer: CacheSerializer<T>;
+
+  constructor(config: CacheConfig<T>) {
+    this.config = config;
+    this.serializer = config.serializer ?? createJsonSerializer<T>();
+  }
+
+  /**
+   * Read the cached snapshot, or null if missing, expired or unreadable
+   */
+  async read(): Promise<CachedPages<T> | null> {
+    try {
+      const raw = await this.config.adapter.getItem(this.config.key);
+      if (!raw) return null;
+
+      const entry = this.serializer.deserialize(raw);
+      if (!entry || !Array.isArray(entry.pages) || entry.pages.length === 0) {
+        return null;
+      }
+
+      if (this.isExpired(entry)) {
+        await this.clear();
+        return null;
+      }
+
+      return entry;
+    } catch (error) {
+      console.warn("PageCacheService: Failed to read cache", error);
+      return null;
+    }
+  }
+
+  /**
+   * Persist the loaded pages of a list state
+   */
+  async write(state: InfiniteScrollState<T>): Promise<void> {
+    const entry: CachedPages<T> = {
+      pages: state.pages,
+      pageMeta: state.pageMeta,
+      currentPage: state.currentPage,
+      firstPage: state.firstPage,
+      offset: state.offset,
+      pageShift: state.pageShift,
+      cursor: state.cursor,
+      previousCursor: state.previousCursor,
+      edgeCursors: state.edgeCursors,
+      hasMore: state.hasMore,
+      hasPrevious: state.hasPrevious,
+      totalItems: state.totalItems,
+      savedAt: Date.now(),
+    };
+
+    try {
+      await this.config.adapter.setItem(
+        this.config.key,
+        this.serializer.serialize(entry),
+      );
+    } catch (error) {
+      console.warn("PageCacheService: Failed to write cache", error);
+    }
+  }
+
+  /**
+   * Remove the cached snapshot
+   */
+  async clear(): Promise<void> {
+    try {
+      await this.config.adapter.removeItem(this.config.key);
+    } catch (error) {
+      console.warn("PageCacheService: Failed to clear cache", error);
+    }
+  }
+
+  private isExpired(entry: CachedPages<T>): boolean {
+    if (this.config.ttl === undefined) return false;
+    return Date.now() - entry.savedAt > this.config.ttl;
+  }
+}
@@ -0,0 +1,19 @@
+/**
+ * Connectivity Provider Interface
+ *
+ * Domain interface for the network state of the device
+ * Follows SOLID, DRY, KISS principles
+ */
+
+export interface ConnectivityProvider {
+  /**
+   * Whether the device is online now
+   */
+  isOnline(): boolean;
+
+  /**
+   * Listen to connectivity changes
+   * @returns Function that stops listening
+   */
+  subscribe(listener: (online: boolean) => void): () => void;
+}
@@ -0,0 +1,19 @@
+/**
+ * Focus Source Interface
+ *
+ * Domain interface for the focus state of the screen showing a list
+ * Follows SOLID, DRY, KISS principles
+ */
+
+export interface FocusSource {
+  /**
+   * Whether the screen is focused now
+   */
+  isFocused(): boolean;
+
+  /**
+   * Listen to focus changes
+   * @returns Function that stops listening
+   */
+  subscribe(listener: (focused: boolean) => void): () => void;
+}
@@ -7,12 +7,17 @@
 
 import type React from "react";
 import type { InfiniteScrollConfig } from "../types/infinite-scroll-config";
+import type { InfiniteScrollError } from "../types/infinite-scroll-error";
+import type { ListRenderer } from "./list-renderer";
 
-export interface InfiniteScrollListProps<T> {
+/**
+ * Props shared by all infinite scroll list components
+ */
+export interface InfiniteScrollListBaseProps<T, P = unknown> {
   /**
    * Configuration for infinite scroll
    */
-  config: InfiniteScrollConfig<T>;
+  config: InfiniteScrollConfig<T, P>;
 
   /**
    * Render function for each item
@@ -29,15 +34,74 @@ export interface InfiniteScrollListProps<T> {
    */
   loadingMoreComponent?: React.ReactElement;
 
+  /**
+   * Optional: Custom loading previous component (shown above the items)
+   */
+  loadingPreviousComponent?: React.ReactElement;
+
+  /**
+   * Optional: Show skeleton rows in place of items while the first page loads
+   * and after the items while the next page loads, instead of spinners
+   * Default: false (true when renderPlaceholder is set)
+   */
+  skeleton?: boolean;
+
+  /**
+   * Optional: Render function for a skeleton row
+   * Default: SkeletonItem
+   */
+  renderPlaceholder?: (index: number) => React.ReactElement;
+
+  /**
+   * Optional: Number of skeleton rows while the first page loads
+   * Default: 6
+   */
+  placeholderCount?: number;
+
+  /**
+   * Optional: Number of skeleton rows while the next page loads
+   * Default: 2
+   */
+  loadMorePlaceholderCount?: number;
+
   /**
    * Optional: Custom empty component
    */
   emptyComponent?: React.ReactElement;
 
   /**
-   * Optional: Custom error component
+   * Optional: Custom error component (initial load failed, nothing to show)
+   */
+  errorComponent?: (
+    error: string,
+    retry: () => void,
+    details?: InfiniteScrollError,
+  ) => React.ReactElement;
+
+  /**
+   * Optional: Custom inline error row, rendered in the footer when loading
+   * more fails and in the header when refreshing or loading previous fails
+   */
+  inlineErrorComponent?: (
+    error: InfiniteScrollError,
+    retry: () => void,
+  ) => React.ReactElement;
+
+  /**
+   * Optional: Custom banner shown over the list while head polling has
+   * found new items (config.headPolling); null hides it
+   * Default: NewItemsBanner
+   */
+  newItemsBanner?:
+    | ((count: number, showNewItems: () => void) => React.ReactElement)
+    | null;
+
+  /**
+   * Optional: Custom banner shown above the list while the device is
+   * offline (config.connectivity); null hides it
+   * Default: OfflineBanner
    */
-  errorComponent?: (error: string, retry: () => void) => React.ReactElement;
+  offlineBanner?: React.ReactElement | null;
 
   /**
    * Optional: List header component
@@ -48,9 +112,43 @@ export interface InfiniteScrollListProps<T> {
    * Optional: List footer component
    */
   ListFooterComponent?: React.ReactElement;
+}
+
+export interface InfiniteScrollListProps<T, P = unknown>
+  extends InfiniteScrollListBaseProps<T, P> {
+  /**
+   * Optional: Number of columns; config.threshold then counts rows
+   * Default: 1
+   */
+  columns?: number;
+
+  /**
+   * Optional: Stack items of variable height in the shortest column instead
+   * of aligning them in rows (requires columns > 1)
+   * Masonry lists are not virtualized and do not support maxPagesInMemory
+   */
+  masonry?: boolean;
+
+  /**
+   * Optional: Estimated height of an item before it is measured, used to
+   * balance masonry columns (e.g. from image aspect ratios)
+   */
+  estimateItemHeight?: (item: T) => number;
+
+  /**
+   * Optional: Component rendering the rows (FlatListRenderer,
+   * ScrollViewRenderer or an adapter for another virtualized list)
+   * Default: FlatListRenderer
+   */
+  renderer?: ListRenderer<unknown>;
+
+  /**
+   * Optional: Additional props passed to a custom renderer's list
+   */
+  rendererProps?: Record<string, unknown>;
 
   /**
-   * Optional: Additional FlatList props
+   * Optional: Additional FlatList props (default renderer)
    */
   flatListProps?: Omit<
     React.ComponentProps<typeof import("react-native").FlatList<T>>,
@@ -59,6 +157,8 @@ export interface InfiniteScrollListProps<T> {
     | "keyExtractor"
     | "onEndReached"
     | "onEndReachedThreshold"
+    | "onStartReached"
+    | "onStartReachedThreshold"
     | "onRefresh"
     | "refreshing"
     | "ListHeaderComponent"
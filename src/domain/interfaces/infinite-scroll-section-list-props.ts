@@ -0,0 +1,54 @@
+/**
+ * Infinite Scroll Section List Props Interface
+ *
+ * Domain interface for component props
+ * Follows SOLID, DRY, KISS principles
+ */
+
+import type React from "react";
+import type { InfiniteScrollListBaseProps } from "./infinite-scroll-list-props";
+import type { InfiniteScrollSection } from "../types/infinite-scroll-section";
+
+export interface InfiniteScrollSectionListProps<T, P = unknown>
+  extends InfiniteScrollListBaseProps<T, P> {
+  /**
+   * Group of an item, e.g. its day ("2024-05-01")
+   * Consecutive items with the same group share a section
+   */
+  groupBy: (item: T) => string;
+
+  /**
+   * Render function for a section header
+   */
+  renderSectionHeader: (
+    section: InfiniteScrollSection<T>,
+  ) => React.ReactElement | null;
+
+  /**
+   * Optional: Keep the current section header at the top while scrolling
+   * Default: true
+   */
+  stickySectionHeaders?: boolean;
+
+  /**
+   * Optional: Additional SectionList props
+   */
+  sectionListProps?: Omit<
+    React.ComponentProps<
+      typeof import("react-native").SectionList<T, InfiniteScrollSection<T>>
+    >,
+    | "sections"
+    | "renderItem"
+    | "renderSectionHeader"
+    | "keyExtractor"
+    | "stickySectionHeadersEnabled"
+    | "onEndReached"
+    | "onEndReachedThreshold"
+    | "onStartReached"
+    | "onStartReachedThreshold"
+    | "onRefresh"
+    | "refreshing"
+    | "ListHeaderComponent"
+    | "ListFooterComponent"
+  >;
+}
@@ -0,0 +1,115 @@
+/**
+ * List Renderer Interface
+ *
+ * Domain interface for the virtualized list behind InfiniteScrollList
+ * Follows SOLID, DRY, KISS principles
+ */
+
+import type React from "react";
+
+/**
+ * Viewable item reported by a renderer
+ */
+export interface ListRendererViewToken<T> {
+  item: T;
+  index: number | null;
+  key: string;
+  isViewable: boolean;
+}
+
+/**
+ * Props InfiniteScrollList passes to its renderer
+ *
+ * Names and semantics follow FlatList, so most virtualized lists
+ * (FlashList, RecyclerListView wrappers) can take them as is
+ */
+export interface ListRendererProps<T> {
+  /**
+   * Rows to render, in order
+   * Opaque to the renderer: items, placeholders of evicted items or grid rows
+   */
+  data: T[];
+
+  /**
+   * Render function for a row
+   */
+  renderItem: (info: { item: T; index: number }) => React.ReactElement;
+
+  /**
+   * Stable key of a row
+   */
+  keyExtractor: (item: T, index: number) => string;
+
+  /**
+   * Call when the end of the content is within onEndReachedThreshold
+   */
+  onEndReached: () => void;
+
+  /**
+   * Distance from the end, in visible lengths, that triggers onEndReached
+   */
+  onEndReachedThreshold: number;
+
+  /**
+   * Call when the start of the content is within onStartReachedThreshold
+   * Only set for bidirectional lists
+   */
+  onStartReached?: () => void;
+
+  /**
+   * Distance from the start, in visible lengths, that triggers onStartReached
+   */
+  onStartReachedThreshold?: number;
+
+  /**
+   * Keep visible rows anchored when rows are prepended
+   * Only set for bidirectional lists
+   */
+  maintainVisibleContentPosition?: { minIndexForVisible: number };
+
+  /**
+   * Pull-to-refresh handler
+   */
+  onRefresh: () => void;
+
+  /**
+   * Whether a pull-to-refresh is in progress
+   */
+  refreshing: boolean;
+
+  /**
+   * Rendered above the rows: inline errors, loading previous, user header
+   */
+  ListHeaderComponent: React.ReactElement;
+
+  /**
+   * Rendered below the rows: user footer, loading more, inline error
+   */
+  ListFooterComponent: React.ReactElement;
+
+  /**
+   * Report the rows on screen; drives maxPagesInMemory and prefetch depth
+   * Renderers that cannot report them may ignore it
+   */
+  onViewableItemsChanged?: (info: {
+    viewableItems: ListRendererViewToken<T>[];
+    changed: ListRendererViewToken<T>[];
+  }) => void;
+
+  /**
+   * Additional props for the underlying list (flatListProps or rendererProps)
+   */
+  extraProps?: Record<string, unknown>;
+}
+
+/**
+ * Component rendering the rows of an InfiniteScrollList
+ *
+ * @example
+ * ```tsx
+ * const FlashListRenderer: ListRenderer<unknown> = ({ extraProps, ...props }) => (
+ *   <FlashList estimatedItemSize={80} {...props} {...extraProps} />
+ * );
+ * ```
+ */
+export type ListRenderer<T> = React.ComponentType<ListRendererProps<T>>;
@@ -0,0 +1,13 @@
+/**
+ * Storage Adapter Interface
+ *
+ * Domain interface for key-value persistence
+ * Follows SOLID, DRY, KISS principles
+ */
+
+export interface StorageAdapter {
+  getItem(key: string): Promise<string | null>;
+  setItem(key: string, value: string): Promise<void>;
+  removeItem(key: string): Promise<void>;
+  clear(): Promise<void>;
+}
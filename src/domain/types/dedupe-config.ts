@@ -0,0 +1,25 @@
+/**
+ * Dedupe Configuration Types
+ *
+ * Domain types for removing items repeated across pages
+ * Follows SOLID, DRY, KISS principles
+ */
+
+/**
+ * How to resolve an incoming item whose key is already loaded
+ * - "drop": keep the loaded item, discard the incoming one
+ * - "latest-wins": replace the loaded item (in place) with the incoming one
+ * - function: replace the loaded item (in place) with the merged result
+ */
+export type DedupeStrategy<T> =
+  | "drop"
+  | "latest-wins"
+  | ((existing: T, incoming: T) => T);
+
+export interface DedupeConfig<T> {
+  /**
+   * Resolution strategy for duplicates
+   * Default: "drop"
+   */
+  strategy?: DedupeStrategy<T>;
+}
@@ -0,0 +1,23 @@
+/**
+ * Head Polling Configuration Types
+ *
+ * Domain types for detecting items created after the first page loaded
+ * Follows SOLID, DRY, KISS principles
+ */
+
+export interface HeadPollingConfig<T, P = unknown> {
+  /**
+   * Fetch the items newer than the newest known item, newest first
+   * @param newest - First loaded item, or the newest item found by a previous poll
+   * @param signal - Aborted when the poll is cancelled
+   * @param params - Params of the active query
+   */
+  fetchNewer: (newest: T, signal?: AbortSignal, params?: P) => Promise<T[]>;
+
+  /**
+   * Milliseconds between polls
+   * Polling pauses while the app is in the background
+   * Default: 30000
+   */
+  interval?: number;
+}
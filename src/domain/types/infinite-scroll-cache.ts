@@ -0,0 +1,68 @@
+/**
+ * Infinite Scroll Cache Types
+ *
+ * Domain types for persisting loaded pages
+ * Follows SOLID, DRY, KISS principles
+ */
+
+import type { StorageAdapter } from "../interfaces/storage-adapter";
+import type { PageMeta } from "./page-window";
+
+/**
+ * Snapshot of loaded pages written to storage
+ */
+export interface CachedPages<T> {
+  pages: T[][];
+  pageMeta?: PageMeta[];
+  currentPage: number;
+  firstPage: number;
+  offset?: number;
+  pageShift?: number;
+  cursor: string | null;
+  previousCursor: string | null;
+  edgeCursors?: Record<string, string>;
+  hasMore: boolean;
+  hasPrevious: boolean;
+  totalItems?: number;
+
+  /**
+   * Timestamp (ms) when the snapshot was written
+   */
+  savedAt: number;
+}
+
+/**
+ * Converts cache snapshots to and from their stored string form
+ */
+export interface CacheSerializer<T> {
+  serialize: (entry: CachedPages<T>) => string;
+  deserialize: (raw: string) => CachedPages<T>;
+}
+
+/**
+ * Persistent page cache configuration
+ */
+export interface CacheConfig<T> {
+  /**
+   * Storage used to persist pages
+   */
+  adapter: StorageAdapter;
+
+  /**
+   * Storage key for this list (must be unique per list/query)
+   */
+  key: string;
+
+  /**
+   * Optional: Maximum age of a cached snapshot in milliseconds
+   * Older snapshots are discarded instead of hydrated
+   * Default: no expiry
+   */
+  ttl?: number;
+
+  /**
+   * Optional: Custom serializer (e.g. to revive Date fields)
+   * Default: JSON
+   */
+  serializer?: CacheSerializer<T>;
+}
@@ -5,6 +5,14 @@
  * Follows SOLID, DRY, KISS principles
  */
 
+import type { CacheConfig } from "./infinite-scroll-cache";
+import type { RetryConfig } from "./retry-config";
+import type { DedupeConfig } from "./dedupe-config";
+import type { HeadPollingConfig } from "./head-polling-config";
+import type { RealtimeSubscribe } from "./realtime-config";
+import type { FocusSource } from "../interfaces/focus-source";
+import type { ConnectivityProvider } from "../interfaces/connectivity-provider";
+
 /**
  * Paginated result for cursor-based pagination
  */
@@ -12,12 +20,64 @@ export interface PaginatedResult<T> {
   items: T[];
   nextCursor: string | null;
   hasMore: boolean;
+
+  /**
+   * Optional: Cursor pointing before the first item of this page
+   * Used by loadPrevious in bidirectional lists
+   */
+  prevCursor?: string | null;
+
+  /**
+   * Optional: Whether older/earlier items are available before this page
+   * Default: true when prevCursor is set
+   */
+  hasPrevious?: boolean;
+}
+
+/**
+ * Result of an offset/limit request
+ */
+export interface OffsetResult<T> {
+  items: T[];
+
+  /**
+   * Optional: Total number of items on the server
+   * Updates state.totalItems and decides hasMore when present
+   */
+  total?: number;
 }
 
 /**
  * Base configuration shared by all pagination modes
+ * P is the type of params passed to the fetchers
  */
-interface BaseConfig<T> {
+interface BaseConfig<T, P> {
+  /**
+   * Optional: Query parameters passed to the fetchers (filters, search text)
+   * The list resets and reloads when they change
+   */
+  params?: P;
+
+  /**
+   * Optional: Identity of the query (default: params)
+   * The list resets and reloads when the key changes; compared by value
+   */
+  queryKey?: unknown;
+
+  /**
+   * Optional: Delay in milliseconds before a changed query key takes effect
+   * (e.g. search input); the current query stays on screen meanwhile
+   * Default: 0
+   */
+  queryDebounce?: number;
+
+  /**
+   * Optional: Number of previous query keys whose pages stay in memory
+   * Switching back to a retained key restores its pages without refetching
+   * Default: 5
+   */
+  retainQueries?: number;
+
   /**
    * Total number of items available (optional, for progress tracking)
    */
@@ -31,10 +91,20 @@ interface BaseConfig<T> {
 
   /**
    * Number of items from the end to trigger loading more
+   * (and from the start to trigger loading previous in bidirectional mode)
    * Default: 5 (loads more when 5 items from bottom)
    */
   threshold?: number;
 
+  /**
+   * How threshold is measured
+   * - "items": the last visible row is within threshold rows of the end,
+   *   tracked through setVisibleRange (InfiniteScrollList reports it)
+   * - "viewport": threshold / 100 of the visible length, via onEndReached
+   * Default: "items"
+   */
+  thresholdMode?: "items" | "viewport";
+
   /**
    * Enable automatic loading when threshold is reached
    * Default: true
@@ -49,14 +119,112 @@ interface BaseConfig<T> {
    * @returns Unique key string
    */
   getItemKey?: (item: T, index: number) => string;
+
+  /**
+   * Optional: Persist loaded pages and hydrate them on mount
+   * Cached pages are shown immediately while the first page is revalidated
+   */
+  cache?: CacheConfig<T>;
+
+  /**
+   * Optional: Retry failed initial load, load-more and refresh requests
+   * Default: no retries
+   */
+  retry?: RetryConfig;
+
+  /**
+   * Optional: Remove items already loaded in earlier pages (requires getItemKey)
+   * true uses the "drop" strategy
+   * Default: disabled
+   */
+  dedupe?: boolean | DedupeConfig<T>;
+
+  /**
+   * Optional: Maximum number of pages kept in memory
+   * Pages far from the viewport are evicted (their rows become placeholders)
+   * and fetched again when scrolled back into the window
+   * Default: unlimited
+   */
+  maxPagesInMemory?: number;
+
+  /**
+   * Optional: Number of upcoming pages to fetch ahead in the background
+   * Prefetched pages are buffered and appended only when loadMore is called;
+   * fewer pages are prefetched while scrolling slowly
+   * Default: 0 (no prefetching)
+   */
+  prefetchPages?: number;
+
+  /**
+   * Optional: Poll for items newer than the first loaded item
+   * New items are counted in newItemsCount and merged by showNewItems()
+   * Default: no polling
+   */
+  headPolling?: HeadPollingConfig<T, P>;
+
+  /**
+   * Optional: Listen to a source pushing added, modified and removed items
+   * (e.g. a Firestore snapshot listener); requires getItemKey
+   * Active while the list is mounted and focused, restarted on reset
+   */
+  subscribe?: RealtimeSubscribe<T, P>;
+
+  /**
+   * Optional: Focus state of the screen showing the list
+   * (e.g. built from React Navigation focus and blur events)
+   * Create it once, not on every render
+   * Default: always focused
+   */
+  focusSource?: FocusSource;
+
+  /**
+   * Optional: What refresh() (pull to refresh) reloads
+   * - "reset": only the first page, dropping deeper pages
+   * - "refetch-all": every loaded page again, one after another, shown
+   *   together once all have loaded
+   * - "merge-head": only the first page, spliced in by getItemKey while
+   *   deeper pages stay loaded
+   * Default: "reset"
+   */
+  refreshStrategy?: "reset" | "refetch-all" | "merge-head";
+
+  /**
+   * Optional: Milliseconds after which loaded data counts as stale
+   * (measured from the first page's lastFetchedAt)
+   * Default: 0 (always stale)
+   */
+  staleTime?: number;
+
+  /**
+   * Optional: Revalidate the first page in the background when the app
+   * returns to the foreground with stale data
+   * Default: false
+   */
+  refetchOnAppForeground?: boolean;
+
+  /**
+   * Optional: Revalidate the first page in the background when the screen
+   * regains focus with stale data (requires focusSource)
+   * Default: false
+   */
+  refetchOnFocus?: boolean;
+
+  /**
+   * Optional: Network state of the device (e.g. built from NetInfo)
+   * While offline, loading more is suspended and resumed once back online
+   * Create it once, not on every render
+   * Default: always online
+   */
+  connectivity?: ConnectivityProvider;
 }
 
 /**
  * Page-based pagination configuration (default, backward compatible)
  */
-export interface PageBasedConfig<T> extends BaseConfig<T> {
+export interface PageBasedConfig<T, P = unknown> extends BaseConfig<T, P> {
   /**
    * Initial page number (0-indexed)
+   * When greater than 0, pages before it can be loaded with loadPrevious
    * Default: 0
    */
   initialPage?: number;
@@ -65,9 +233,17 @@ export interface PageBasedConfig<T> extends BaseConfig<T> {
    * Function to fetch data for a specific page
    * @param page - Page number (0-indexed)
    * @param pageSize - Number of items per page
+   * @param signal - Aborted when the request becomes stale (reset, refresh,
+   * unmount or config change); pass it to fetch() to cancel the request
+   * @param params - Current query params
    * @returns Promise resolving to array of items
    */
-  fetchData: (page: number, pageSize: number) => Promise<T[]>;
+  fetchData: (
+    page: number,
+    pageSize: number,
+    signal?: AbortSignal,
+    params?: P,
+  ) => Promise<T[]>;
 
   /**
    * Optional: Function to check if there are more items
@@ -82,7 +258,7 @@ export interface PageBasedConfig<T> extends BaseConfig<T> {
 /**
  * Cursor-based pagination configuration (new, for Firestore)
  */
-export interface CursorBasedConfig<T> extends BaseConfig<T> {
+export interface CursorBasedConfig<T, P = unknown> extends BaseConfig<T, P> {
   /**
    * Discriminator for cursor-based mode
    */
@@ -92,17 +268,149 @@ export interface CursorBasedConfig<T> extends BaseConfig<T> {
    * Function to fetch data using cursor
    * @param cursor - Cursor for next page (undefined for first page)
    * @param pageSize - Number of items per page
+   * @param signal - Aborted when the request becomes stale
+   * @param params - Current query params
    * @returns Promise resolving to paginated result with cursor
    */
   fetchCursor: (
     cursor: string | undefined,
     pageSize: number,
+    signal?: AbortSignal,
+    params?: P,
   ) => Promise<PaginatedResult<T>>;
+
+  /**
+   * Optional: Function to fetch the page before a cursor
+   * Enables loadPrevious (e.g. chat history above an anchor message)
+   * @param cursor - prevCursor of the first loaded page
+   * @param pageSize - Number of items per page
+   * @param signal - Aborted when the request becomes stale
+   * @param params - Current query params
+   * @returns Promise resolving to paginated result; its prevCursor/hasPrevious
+   * describe the next page further back
+   */
+  fetchPreviousCursor?: (
+    cursor: string,
+    pageSize: number,
+    signal?: AbortSignal,
+    params?: P,
+  ) => Promise<PaginatedResult<T>>;
+}
+
+/**
+ * Offset/limit pagination configuration
+ */
+export interface OffsetBasedConfig<T, P = unknown> extends BaseConfig<T, P> {
+  /**
+   * Discriminator for offset-based mode
+   */
+  paginationMode: "offset";
+
+  /**
+   * Offset of the first item to load
+   * Default: 0
+   */
+  initialOffset?: number;
+
+  /**
+   * Function to fetch items starting at an offset
+   * @param offset - Number of items to skip
+   * @param limit - Maximum number of items to return (pageSize)
+   * @param signal - Aborted when the request becomes stale
+   * @param params - Current query params
+   * @returns Promise resolving to items, or items with the server total
+   */
+  fetchOffset: (
+    offset: number,
+    limit: number,
+    signal?: AbortSignal,
+    params?: P,
+  ) => Promise<T[] | OffsetResult<T>>;
+
+  /**
+   * Optional: Function to check if there are more items
+   * If not provided, uses the server total when known, otherwise checks
+   * if last page has fewer items than pageSize
+   * @param lastPage - Last fetched page of items
+   * @param allPages - All fetched pages
+   * @returns true if there are more items to load
+   */
+  hasMore?: (lastPage: T[], allPages: T[][]) => boolean;
+}
+
+/**
+ * GraphQL Relay connection pageInfo
+ */
+export interface RelayPageInfo {
+  endCursor: string | null;
+  hasNextPage: boolean;
+  startCursor?: string | null;
+  hasPreviousPage?: boolean;
+}
+
+/**
+ * GraphQL Relay connection edge
+ */
+export interface RelayEdge<T> {
+  node: T;
+  cursor?: string;
+}
+
+/**
+ * GraphQL Relay connection
+ */
+export interface RelayConnection<T> {
+  edges: Array<RelayEdge<T> | null>;
+  pageInfo: RelayPageInfo;
+
+  /**
+   * Optional: Total number of nodes (updates state.totalItems)
+   */
+  totalCount?: number;
+}
+
+/**
+ * GraphQL Relay connection pagination configuration
+ */
+export interface RelayBasedConfig<T, P = unknown> extends BaseConfig<T, P> {
+  /**
+   * Discriminator for Relay connection mode
+   */
+  paginationMode: "relay";
+
+  /**
+   * Function to fetch a connection page
+   * @param args - Connection arguments (after is undefined for the first page)
+   * @param signal - Aborted when the request becomes stale
+   * @param params - Current query params
+   * @returns Promise resolving to the connection
+   */
+  fetchConnection: (
+    args: { first: number; after?: string },
+    signal?: AbortSignal,
+    params?: P,
+  ) => Promise<RelayConnection<T>>;
+
+  /**
+   * Optional: Function to fetch the connection page before a cursor
+   * Enables loadPrevious using pageInfo.startCursor/hasPreviousPage
+   * @param args - Connection arguments
+   * @param signal - Aborted when the request becomes stale
+   * @param params - Current query params
+   * @returns Promise resolving to the connection
+   */
+  fetchPreviousConnection?: (
+    args: { last: number; before: string },
+    signal?: AbortSignal,
+    params?: P,
+  ) => Promise<RelayConnection<T>>;
 }
 
 /**
  * Infinite scroll configuration (discriminated union)
  */
-export type InfiniteScrollConfig<T> =
-  | PageBasedConfig<T>
-  | CursorBasedConfig<T>;
+export type InfiniteScrollConfig<T, P = unknown> =
+  | PageBasedConfig<T, P>
+  | CursorBasedConfig<T, P>
+  | OffsetBasedConfig<T, P>
+  | RelayBasedConfig<T, P>;
@@ -0,0 +1,57 @@
+/**
+ * Infinite Scroll Error Types
+ *
+ * Domain types for structured fetch errors
+ * Follows SOLID, DRY, KISS principles
+ */
+
+/**
+ * Operation that was running when an error occurred
+ */
+export type InfiniteScrollOperation =
+  | "initial"
+  | "loadMore"
+  | "loadPrevious"
+  | "refresh";
+
+export interface InfiniteScrollError {
+  /**
+   * Human-readable message
+   */
+  message: string;
+
+  /**
+   * Original value thrown by the fetcher
+   */
+  cause: unknown;
+
+  /**
+   * HTTP-style status code, if the error carried one
+   */
+  status?: number;
+
+  /**
+   * Whether retrying the same request may succeed
+   */
+  retryable: boolean;
+
+  /**
+   * Operation that failed
+   */
+  operation: InfiniteScrollOperation;
+
+  /**
+   * Page that failed (page-based mode)
+   */
+  page?: number;
+
+  /**
+   * Offset that failed (offset-based mode)
+   */
+  offset?: number;
+
+  /**
+   * Cursor that failed (cursor-based mode, undefined for the first page)
+   */
+  cursor?: string | null;
+}
@@ -6,6 +6,7 @@
  */
 
 import type { InfiniteScrollState } from "./infinite-scroll-state";
+import type { ItemPlaceholder } from "../utils/page-window-utils";
 
 export interface UseInfiniteScrollReturn<T> {
   /**
@@ -13,6 +14,12 @@ export interface UseInfiniteScrollReturn<T> {
    */
   items: T[];
 
+  /**
+   * Rows to render: loaded items plus placeholders for evicted pages
+   * (same as items when maxPagesInMemory is not set)
+   */
+  rows: Array<T | ItemPlaceholder>;
+
   /**
    * Current state
    */
@@ -24,7 +31,13 @@ export interface UseInfiniteScrollReturn<T> {
   loadMore: () => Promise<void>;
 
   /**
-   * Refresh all data (resets to page 0)
+   * Load the page before the first loaded page
+   */
+  loadPrevious: () => Promise<void>;
+
+  /**
+   * Refresh loaded data as set by config.refreshStrategy
+   * (default: reload the first page and drop deeper pages)
    */
   refresh: () => Promise<void>;
 
@@ -33,8 +46,76 @@ export interface UseInfiniteScrollReturn<T> {
    */
   reset: () => void;
 
+  /**
+   * Insert an item into the loaded pages
+   * @param item - Item to insert
+   * @param position - "start" of the first page (default) or "end" of the last page
+   */
+  insertItem: (item: T, position?: "start" | "end") => void;
+
+  /**
+   * Replace a loaded item, matched by getItemKey
+   * @param key - Key of the item
+   * @param updater - Returns the new item
+   */
+  updateItem: (key: string, updater: (item: T) => T) => void;
+
+  /**
+   * Remove a loaded item, matched by getItemKey
+   * @param key - Key of the item
+   */
+  removeItem: (key: string) => void;
+
+  /**
+   * Replace all loaded items (page boundaries are kept where possible)
+   */
+  setItems: (items: T[] | ((items: T[]) => T[])) => void;
+
+  /**
+   * Apply a mutation immediately and roll it back if the server call fails
+   * @param mutation - Calls insertItem/updateItem/removeItem/setItems
+   * @param serverCall - Persists the change; rejection restores the previous pages
+   * @returns Result of serverCall (rejections are rethrown after rollback)
+   */
+  optimistic: <R>(
+    mutation: () => void,
+    serverCall: () => Promise<R>,
+  ) => Promise<R>;
+
+  /**
+   * Prepend the items found by head polling (state.newItemsCount) to the
+   * list, keeping deeper pages loaded
+   */
+  showNewItems: () => void;
+
+  /**
+   * Fetch the first page again in the background and splice it in by
+   * getItemKey, keeping deeper pages (state.isRevalidating while running)
+   */
+  revalidate: () => Promise<void>;
+
+  /**
+   * Report the visible row range (indices into rows), e.g. from
+   * onViewableItemsChanged; available as state.visibleRange
+   * Triggers loading more with thresholdMode "items", drives page eviction
+   * and restoration when maxPagesInMemory is set, and the prefetch depth
+   * when prefetchPages is set
+   */
+  setVisibleRange: (firstIndex: number, lastIndex: number) => void;
+
   /**
    * Check if can load more
    */
   canLoadMore: boolean;
+
+  /**
+   * Check if can load previous
+   */
+  canLoadPrevious: boolean;
+
+  /**
+   * Whether the device is offline (config.connectivity); loading more is
+   * suspended until it is back online
+   */
+  isOffline: boolean;
 }
@@ -0,0 +1,26 @@
+/**
+ * Infinite Scroll Section Types
+ *
+ * Domain types for lists grouped into sections
+ * Follows SOLID, DRY, KISS principles
+ */
+
+/**
+ * Group of consecutive items sharing a groupBy value
+ */
+export interface InfiniteScrollSection<T> {
+  /**
+   * Unique section key (the group, suffixed if the group appears again later)
+   */
+  key: string;
+
+  /**
+   * Group returned by groupBy for the items of this section
+   */
+  title: string;
+
+  /**
+   * Items of this section, in list order
+   */
+  data: T[];
+}
@@ -5,9 +5,27 @@
  * Follows SOLID, DRY, KISS principles
  */
 
+import type { InfiniteScrollError } from "./infinite-scroll-error";
+import type { PageMeta } from "./page-window";
+
+/**
+ * Rows on screen, as reported through setVisibleRange
+ */
+export interface VisibleRange {
+  /**
+   * Index of the first visible row
+   */
+  firstIndex: number;
+
+  /**
+   * Index of the last visible row
+   */
+  lastIndex: number;
+}
+
 export interface InfiniteScrollState<T> {
   /**
-   * All loaded items (flattened from pages)
+   * All loaded items (flattened from pages, excluding evicted pages)
    */
   items: T[];
 
@@ -16,21 +34,63 @@ export interface InfiniteScrollState<T> {
    */
   pages: T[][];
 
+  /**
+   * Bookkeeping for each page (aligned with pages)
+   */
+  pageMeta: PageMeta[];
+
+  /**
+   * Number of duplicate items removed from each page (aligned with pages)
+   */
+  duplicatesDropped: number[];
+
   /**
    * Current page number (0-indexed, page-based mode)
    */
   currentPage: number;
 
+  /**
+   * First loaded page number (page-based mode)
+   */
+  firstPage: number;
+
+  /**
+   * Offset of the next item to load (offset-based mode)
+   */
+  offset: number;
+
+  /**
+   * Items at the start of the next page that are already loaded, because
+   * newer items were merged into the first page (page-based mode); they are
+   * skipped when the page loads
+   */
+  pageShift: number;
+
   /**
    * Current cursor (cursor-based mode)
    */
   cursor: string | null;
 
+  /**
+   * Cursor before the first loaded page (cursor-based mode)
+   */
+  previousCursor: string | null;
+
+  /**
+   * Edge cursor of each loaded node by item key (Relay mode)
+   */
+  edgeCursors: Record<string, string>;
+
   /**
    * Whether more items are available
    */
   hasMore: boolean;
 
+  /**
+   * Whether items before the first loaded page are available
+   */
+  hasPrevious: boolean;
+
   /**
    * Whether currently loading initial data
    */
@@ -41,18 +101,71 @@ export interface InfiniteScrollState<T> {
    */
   isLoadingMore: boolean;
 
+  /**
+   * Whether currently loading previous items
+   */
+  isLoadingPrevious: boolean;
+
   /**
    * Whether currently refreshing
    */
   isRefreshing: boolean;
 
   /**
-   * Error message if any
+   * Whether cached or loaded pages are shown while fresh data is fetched
+   * (cache hydration or a background revalidation)
+   */
+  isRevalidating: boolean;
+
+  /**
+   * Attempt currently in progress after a failure (e.g. 2 of retry.maxAttempts)
+   * 0 when not retrying
+   */
+  retryAttempt: number;
+
+  /**
+   * Message of the most recent error if any
+   * @deprecated Use initialError, loadMoreError, loadPreviousError or refreshError
    */
   error: string | null;
 
+  /**
+   * Error from the initial load
+   */
+  initialError: InfiniteScrollError | null;
+
+  /**
+   * Error from the last loadMore (loaded items are kept)
+   */
+  loadMoreError: InfiniteScrollError | null;
+
+  /**
+   * Error from the last loadPrevious (loaded items are kept)
+   */
+  loadPreviousError: InfiniteScrollError | null;
+
+  /**
+   * Error from the last refresh (loaded items are kept)
+   */
+  refreshError: InfiniteScrollError | null;
+
+  /**
+   * Whether the device is offline (config.connectivity)
+   */
+  isOffline: boolean;
+
+  /**
+   * Number of items found by head polling, not shown yet
+   */
+  newItemsCount: number;
+
   /**
    * Total number of items (if known)
    */
   totalItems?: number;
+
+  /**
+   * Rows on screen (undefined until the list reports them)
+   */
+  visibleRange?: VisibleRange;
 }
@@ -0,0 +1,57 @@
+/**
+ * Page Window Types
+ *
+ * Domain types for tracking loaded pages and evicting them from memory
+ * Follows SOLID, DRY, KISS principles
+ */
+
+/**
+ * Request that produced a page, used to fetch it again after eviction
+ */
+export interface PageRequest {
+  /**
+   * Page number (page-based mode)
+   */
+  page?: number;
+
+  /**
+   * Offset (offset-based mode)
+   */
+  offset?: number;
+
+  /**
+   * Cursor passed to the fetcher (cursor and Relay modes)
+   */
+  cursor?: string;
+
+  /**
+   * Whether the page was loaded before the first page (loadPrevious)
+   */
+  previous?: boolean;
+}
+
+/**
+ * Bookkeeping for one loaded page (aligned with state.pages)
+ */
+export interface PageMeta {
+  /**
+   * Stable page id (indices shift when pages are prepended)
+   */
+  id: number;
+
+  /**
+   * Request that produced the page
+   */
+  request: PageRequest;
+
+  /**
+   * When the page was last fetched (epoch milliseconds)
+   */
+  lastFetchedAt: number;
+
+  /**
+   * Keys of the page's items when it was evicted (its items are dropped
+   * from memory and replaced by placeholders of the same count)
+   */
+  evictedKeys?: string[];
+}
@@ -0,0 +1,41 @@
+/**
+ * Realtime Configuration Types
+ *
+ * Domain types for sources that push changes to loaded items
+ * Follows SOLID, DRY, KISS principles
+ */
+
+/**
+ * Callbacks a realtime source calls when items change
+ * Items are matched by getItemKey; changes to items that are not loaded
+ * are ignored
+ */
+export interface RealtimeHandlers<T> {
+  /**
+   * An item was created
+   * @param position - Where it belongs (default: "start"); items belonging
+   * at the end are ignored until the last page is loaded
+   */
+  added: (item: T, position?: "start" | "end") => void;
+
+  /**
+   * An item changed (replaced in place)
+   */
+  modified: (item: T) => void;
+
+  /**
+   * An item was deleted
+   */
+  removed: (item: T) => void;
+}
+
+/**
+ * Start listening to a realtime source
+ * @param handlers - Callbacks for pushed changes
+ * @param params - Params of the active query
+ * @returns Function that stops listening
+ */
+export type RealtimeSubscribe<T, P = unknown> = (
+  handlers: RealtimeHandlers<T>,
+  params?: P,
+) => () => void;
@@ -0,0 +1,56 @@
+/**
+ * Retry Configuration Types
+ *
+ * Domain types for retrying failed fetches
+ * Follows SOLID, DRY, KISS principles
+ */
+
+export interface RetryConfig {
+  /**
+   * Maximum number of attempts, including the first one
+   * Default: 3
+   */
+  maxAttempts?: number;
+
+  /**
+   * Delay before the first retry in milliseconds
+   * Default: 1000
+   */
+  baseDelay?: number;
+
+  /**
+   * Upper bound for a single backoff delay in milliseconds
+   * Default: 30000
+   */
+  maxDelay?: number;
+
+  /**
+   * Multiplier applied to the delay after each attempt
+   * Default: 2
+   */
+  factor?: number;
+
+  /**
+   * Randomize delays (between half and the full backoff) to avoid
+   * synchronized retries from many clients
+   * Default: true
+   */
+  jitter?: boolean;
+
+  /**
+   * Optional: Decide whether a failure should be retried
+   * If not provided, retries network errors, 408, 429 and 5xx responses
+   * @param error - Error thrown by the fetcher
+   * @param attempt - Attempt that failed (1-indexed)
+   * @returns true to retry
+   */
+  shouldRetry?: (error: unknown, attempt: number) => boolean;
+
+  /**
+   * Optional: Read a server-supplied delay from an error
+   * If not provided, uses `error.retryAfter` (seconds, like the Retry-After header)
+   * @param error - Error thrown by the fetcher
+   * @returns Delay in milliseconds, or undefined to use backoff
+   */
+  getRetryAfter?: (error: unknown) => number | undefined;
+}
@@ -0,0 +1,91 @@
+/**
+ * Dedupe Utilities
+ *
+ * Pure functions for removing items repeated across pages
+ * Follows SOLID, DRY, KISS principles
+ */
+
+import type { DedupeStrategy } from "../types/dedupe-config";
+import type { ItemKeyResolver } from "./item-mutation-utils";
+
+export interface DedupeResult<T> {
+  /**
+   * Loaded pages, with duplicates replaced in place for non-"drop" strategies
+   */
+  pages: T[][];
+
+  /**
+   * Incoming page without items that were already loaded
+   */
+  page: T[];
+
+  /**
+   * Number of incoming items removed from the page
+   */
+  dropped: number;
+}
+
+/**
+ * Remove items from an incoming page whose keys are already loaded
+ * (or repeated within the page itself)
+ *
+ * @param pages - Loaded pages
+ * @param incoming - Newly fetched page
+ * @param getKey - Key resolver
+ * @param strategy - How duplicates are resolved (default: "drop")
+ * @param knownKeys - Keys of loaded items not in pages (evicted pages);
+ * incoming items with these keys are always dropped
+ * @returns Updated loaded pages, filtered page and dropped count
+ */
+export function dedupePage<T>(
+  pages: T[][],
+  incoming: T[],
+  getKey: ItemKeyResolver<T>,
+  strategy: DedupeStrategy<T> = "drop",
+  knownKeys: Iterable<string> = [],
+): DedupeResult<T> {
+  const evicted = new Set(knownKeys);
+  // key -> [pageIndex, itemIndex] of loaded items
+  const locations = new Map<string, [number, number]>();
+  let index = 0;
+  pages.forEach((page, pageIndex) => {
+    page.forEach((item, itemIndex) => {
+      locations.set(getKey(item, index++), [pageIndex, itemIndex]);
+    });
+  });
+
+  let nextPages = pages;
+  const page: T[] = [];
+  const seen = new Map<string, number>();
+
+  const resolve = (existing: T, item: T): T => {
+    if (strategy === "drop") return existing;
+    if (strategy === "latest-wins") return item;
+    return strategy(existing, item);
+  };
+
+  incoming.forEach((item) => {
+    const key = getKey(item, index++);
+    const location = locations.get(key);
+    const seenAt = seen.get(key);
+
+    if (evicted.has(key) && !location) {
+      // Item of an evicted page: dropped whatever the strategy
+    } else if (location) {
+      if (strategy !== "drop") {
+        const [pageIndex, itemIndex] = location;
+        if (nextPages === pages) nextPages = pages.map((p) => p);
+        const target = [...nextPages[pageIndex]];
+        target[itemIndex] = resolve(target[itemIndex], item);
+        nextPages[pageIndex] = target;
+      }
+    } else if (seenAt !== undefined) {
+      page[seenAt] = resolve(page[seenAt], item);
+    } else {
+      seen.set(key, page.length);
+      page.push(item);
+    }
+  });
+
+  return { pages: nextPages, page, dropped: incoming.length - page.length };
+}
@@ -0,0 +1,80 @@
+/**
+ * Error Utilities
+ *
+ * Pure functions for building structured errors
+ * Follows SOLID, DRY, KISS principles
+ */
+
+import type {
+  InfiniteScrollError,
+  InfiniteScrollOperation,
+} from "../types/infinite-scroll-error";
+import { isAbortError } from "./abort-utils";
+
+const DEFAULT_MESSAGES: Record<InfiniteScrollOperation, string> = {
+  initial: "Failed to load data",
+  loadMore: "Failed to load more items",
+  loadPrevious: "Failed to load previous items",
+  refresh: "Failed to refresh data",
+};
+
+/**
+ * Read an HTTP-style status from common error shapes
+ * (`error.status`, `error.statusCode`, `error.response.status`)
+ *
+ * @param error - Value thrown by a fetcher
+ * @returns Status code, or undefined if none is present
+ */
+export function getErrorStatus(error: unknown): number | undefined {
+  if (typeof error !== "object" || error === null) return undefined;
+
+  const candidate = error as {
+    status?: unknown;
+    statusCode?: unknown;
+    response?: { status?: unknown };
+  };
+  const status =
+    candidate.status ?? candidate.statusCode ?? candidate.response?.status;
+  return typeof status === "number" ? status : undefined;
+}
+
+/**
+ * Check if retrying a failed request may succeed
+ * Network errors (no status), timeouts, rate limits and 5xx are retryable
+ *
+ * @param error - Value thrown by a fetcher
+ * @returns True if the error is worth retrying
+ */
+export function isRetryableError(error: unknown): boolean {
+  if (isAbortError(error)) return false;
+
+  const status = getErrorStatus(error);
+  if (status === undefined) return true;
+  return status === 408 || status === 429 || status >= 500;
+}
+
+/**
+ * Build a structured error from a thrown value
+ *
+ * @param cause - Value thrown by a fetcher
+ * @param operation - Operation that failed
+ * @param target - Page, offset or cursor that was requested
+ * @returns Structured error
+ */
+export function createInfiniteScrollError(
+  cause: unknown,
+  operation: InfiniteScrollOperation,
+  target: { page?: number; offset?: number; cursor?: string | null } = {},
+): InfiniteScrollError {
+  return {
+    message:
+      cause instanceof Error && cause.message
+        ? cause.message
+        : DEFAULT_MESSAGES[operation],
+    cause,
+    status: getErrorStatus(cause),
+    retryable: isRetryableError(cause),
+    operation,
+    ...target,
+  };
+}
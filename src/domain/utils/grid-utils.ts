@@ -0,0 +1,56 @@
+/**
+ * Grid Utilities
+ *
+ * Pure functions for laying out items in columns
+ * Follows SOLID, DRY, KISS principles
+ */
+
+/**
+ * Split items into rows of a grid
+ * The last row holds the remaining items and may be incomplete
+ *
+ * @param items - Items in list order
+ * @param columns - Items per row
+ * @returns Rows in list order
+ */
+export function chunkIntoRows<T>(items: T[], columns: number): T[][] {
+  const size = Math.max(1, Math.floor(columns));
+  const rows: T[][] = [];
+  for (let start = 0; start < items.length; start += size) {
+    rows.push(items.slice(start, start + size));
+  }
+  return rows;
+}
+
+/**
+ * Assign items to masonry columns, appending each new item to the shortest
+ * column; items assigned earlier keep their column so loaded tiles never move
+ *
+ * @param items - Item keys and heights (measured, or estimated until measured)
+ * @param columns - Number of columns
+ * @param assigned - Column of each previously assigned item key
+ * @returns Column of each item key
+ */
+export function balanceMasonryColumns(
+  items: Array<{ key: string; height: number }>,
+  columns: number,
+  assigned: ReadonlyMap<string, number>,
+): Map<string, number> {
+  const count = Math.max(1, Math.floor(columns));
+  const heights = new Array<number>(count).fill(0);
+  const result = new Map<string, number>();
+
+  for (const { key, height } of items) {
+    const previous = assigned.get(key);
+    let column: number;
+    if (previous !== undefined && previous < count) {
+      column = previous;
+    } else {
+      column = heights.indexOf(Math.min(...heights));
+    }
+    heights[column] += height;
+    result.set(key, column);
+  }
+
+  return result;
+}
@@ -0,0 +1,256 @@
+/**
+ * Item Mutation Utilities
+ *
+ * Pure functions for changing loaded items without reloading pages
+ * Follows SOLID, DRY, KISS principles
+ */
+
+/**
+ * Resolves the key of an item at its position in the flattened list
+ */
+export type ItemKeyResolver<T> = (item: T, index: number) => string;
+
+/**
+ * Default key resolver (array index), used when getItemKey is not configured
+ */
+export function defaultItemKey<T>(_item: T, index: number): string {
+  return `item-${index}`;
+}
+
+/**
+ * Insert an item at the start of the first page or the end of the last page
+ *
+ * @param pages - Loaded pages
+ * @param item - Item to insert
+ * @param position - Where to insert (default: "start")
+ * @returns New pages
+ */
+export function insertIntoPages<T>(
+  pages: T[][],
+  item: T,
+  position: "start" | "end" = "start",
+): T[][] {
+  if (pages.length === 0) return [[item]];
+
+  if (position === "start") {
+    return [[item, ...pages[0]], ...pages.slice(1)];
+  }
+  const last = pages.length - 1;
+  return [...pages.slice(0, last), [...pages[last], item]];
+}
+
+/**
+ * Map every item matching a key, keeping page boundaries
+ *
+ * @param pages - Loaded pages
+ * @param key - Key of the item to change
+ * @param updater - Returns the replacement item, or null to remove it
+ * @param getKey - Key resolver
+ * @returns New pages (same reference if no item matched)
+ */
+export function mapItemInPages<T>(
+  pages: T[][],
+  key: string,
+  updater: (item: T) => T | null,
+  getKey: ItemKeyResolver<T>,
+): T[][] {
+  let index = 0;
+  let changed = false;
+
+  const next = pages.map((page) => {
+    const result: T[] = [];
+    for (const item of page) {
+      if (getKey(item, index++) === key) {
+        changed = true;
+        const updated = updater(item);
+        if (updated !== null) result.push(updated);
+      } else {
+        result.push(item);
+      }
+    }
+    return result;
+  });
+
+  return changed ? next : pages;
+}
+
+/**
+ * Split a flat item list back into pages, following the original page sizes
+ * Extra items go to the last page
+ *
+ * @param items - New flattened items
+ * @param pages - Previous pages (used for page sizes)
+ * @returns New pages
+ */
+export function repaginate<T>(items: T[], pages: T[][]): T[][] {
+  if (pages.length === 0) return items.length > 0 ? [items] : [];
+
+  let offset = 0;
+  return pages.map((page, pageIndex) => {
+    const isLast = pageIndex === pages.length - 1;
+    const end = isLast ? items.length : offset + page.length;
+    const slice = items.slice(offset, end);
+    offset = end;
+    return slice;
+  });
+}
+
+/**
+ * Merge a freshly fetched version of a page into it by key: the fresh items
+ * come first, followed by the page's items after the last one still in the
+ * fresh page (pushed towards the next page by newer items); other pages lose
+ * the items that now appear in the fresh page
+ *
+ * @param pages - Loaded pages
+ * @param index - Index of the page to merge into
+ * @param fresh - Fetched items of the page
+ * @param getKey - Key resolver
+ * @returns New pages
+ */
+export function mergePage<T>(
+  pages: T[][],
+  index: number,
+  fresh: T[],
+  getKey: ItemKeyResolver<T>,
+): T[][] {
+  const freshKeys = new Set(fresh.map((item, i) => getKey(item, i)));
+  let offset = 0;
+  return pages.map((page, i) => {
+    const start = offset;
+    offset += page.length;
+    const inFresh = page.map((item, j) => freshKeys.has(getKey(item, start + j)));
+    if (i === index) {
+      // Earlier items missing from the fresh page were removed
+      return [...fresh, ...page.slice(inFresh.lastIndexOf(true) + 1)];
+    }
+    const kept = page.filter((_, j) => !inFresh[j]);
+    return kept.length === page.length ? page : kept;
+  });
+}
+
+/**
+ * Differences between two versions of the loaded items, by key
+ */
+export interface ItemChanges<T> {
+  /**
+   * Keys of the previous items, in order
+   */
+  keys: string[];
+
+  /**
+   * Replaced items: previous and new version by key
+   */
+  updated: Map<string, { previous: T; next: T }>;
+
+  /**
+   * Removed items with their index in the previous items
+   */
+  removed: Array<{ item: T; index: number }>;
+
+  /**
+   * Keys of inserted items
+   */
+  inserted: Set<string>;
+}
+
+/**
+ * Compare two versions of the loaded items by key
+ *
+ * @param previous - Items before the change
+ * @param next - Items after the change
+ * @param getKey - Key resolver
+ * @returns Updated, removed and inserted items
+ */
+export function diffItems<T>(
+  previous: T[],
+  next: T[],
+  getKey: ItemKeyResolver<T>,
+): ItemChanges<T> {
+  const keys = previous.map((item, index) => getKey(item, index));
+  const nextByKey = new Map(
+    next.map((item, index) => [getKey(item, index), item] as const),
+  );
+  const previousKeys = new Set(keys);
+
+  const updated = new Map<string, { previous: T; next: T }>();
+  const removed: Array<{ item: T; index: number }> = [];
+  previous.forEach((item, index) => {
+    const key = keys[index];
+    if (!nextByKey.has(key)) {
+      removed.push({ item, index });
+    } else if (nextByKey.get(key) !== item) {
+      updated.set(key, { previous: item, next: nextByKey.get(key) as T });
+    }
+  });
+
+  const inserted = new Set(
+    Array.from(nextByKey.keys()).filter((key) => !previousKeys.has(key)),
+  );
+  return { keys, updated, removed, inserted };
+}
+
+/**
+ * Undo item changes in the current pages, leaving other changes made since
+ * (loaded pages, other edits) in place
+ * Inserted items are removed, updated items that were not changed again get
+ * their previous version back, and removed items are put back after the
+ * nearest item that preceded them
+ *
+ * @param pages - Current pages
+ * @param changes - Changes to undo (from diffItems)
+ * @param getKey - Key resolver
+ * @returns New pages
+ */
+export function revertItemChanges<T>(
+  pages: T[][],
+  changes: ItemChanges<T>,
+  getKey: ItemKeyResolver<T>,
+): T[][] {
+  let index = 0;
+  let result = pages.map((page) =>
+    page.flatMap((item) => {
+      const key = getKey(item, index++);
+      if (changes.inserted.has(key)) return [];
+      const update = changes.updated.get(key);
+      return [update && update.next === item ? update.previous : item];
+    }),
+  );
+
+  for (const { item, index: removedIndex } of changes.removed) {
+    const located = locateItems(result, getKey);
+    if (located.has(changes.keys[removedIndex])) continue;
+
+    let anchor: [number, number] | undefined;
+    for (let i = removedIndex - 1; i >= 0 && !anchor; i--) {
+      anchor = located.get(changes.keys[i]);
+    }
+    if (result.length === 0) {
+      result = [[item]];
+      continue;
+    }
+    const [pageIndex, position] = anchor ? [anchor[0], anchor[1] + 1] : [0, 0];
+    result = result.map((page, i) =>
+      i === pageIndex
+        ? [...page.slice(0, position), item, ...page.slice(position)]
+        : page,
+    );
+  }
+  return result;
+}
+
+/**
+ * Page index and position of every item, by key
+ */
+function locateItems<T>(
+  pages: T[][],
+  getKey: ItemKeyResolver<T>,
+): Map<string, [number, number]> {
+  const located = new Map<string, [number, number]>();
+  let index = 0;
+  pages.forEach((page, pageIndex) =>
+    page.forEach((item, position) =>
+      located.set(getKey(item, index++), [pageIndex, position]),
+    ),
+  );
+  return located;
+}
@@ -0,0 +1,238 @@
+/**
+ * Page Window Utilities
+ *
+ * Pure functions for keeping a bounded window of pages in memory
+ * Follows SOLID, DRY, KISS principles
+ */
+
+import type { PageMeta } from "../types/page-window";
+import type { ItemKeyResolver } from "./item-mutation-utils";
+
+/**
+ * Stand-in row for an item of an evicted page
+ */
+export class ItemPlaceholder {
+  readonly key: string;
+  readonly pageIndex: number;
+
+  constructor(key: string, pageIndex: number) {
+    this.key = key;
+    this.pageIndex = pageIndex;
+  }
+}
+
+/**
+ * Check if a row is a placeholder for an evicted item
+ */
+export function isItemPlaceholder(row: unknown): row is ItemPlaceholder {
+  return row instanceof ItemPlaceholder;
+}
+
+/**
+ * Range of page indices [start, end] kept in memory around an anchor page
+ *
+ * @param pageCount - Number of loaded pages
+ * @param anchor - Page index closest to the viewport
+ * @param maxPages - Maximum number of pages in memory
+ * @returns Inclusive start and end page indices
+ */
+export function getPageWindow(
+  pageCount: number,
+  anchor: number,
+  maxPages: number,
+): [number, number] {
+  const size = Math.max(1, Math.min(maxPages, pageCount));
+  const clampedAnchor = Math.max(0, Math.min(anchor, pageCount - 1));
+  const start = Math.max(
+    0,
+    Math.min(clampedAnchor - Math.floor((size - 1) / 2), pageCount - size),
+  );
+  return [start, start + size - 1];
+}
+
+/**
+ * Find the page index containing a row of the flattened list
+ * (evicted pages count with their placeholder rows)
+ *
+ * @param pages - Loaded pages
+ * @param pageMeta - Page bookkeeping
+ * @param rowIndex - Index in the flattened list
+ * @returns Page index
+ */
+export function getPageIndexForRow<T>(
+  pages: T[][],
+  pageMeta: PageMeta[],
+  rowIndex: number,
+): number {
+  let end = 0;
+  for (let index = 0; index < pages.length; index++) {
+    end += pageMeta[index]?.evictedKeys?.length ?? pages[index].length;
+    if (rowIndex < end) return index;
+  }
+  return Math.max(0, pages.length - 1);
+}
+
+/**
+ * Flatten pages into rows, replacing evicted items with placeholders
+ * Items added to an evicted page after its eviction are kept in memory and
+ * shown in place (requires getKey)
+ *
+ * @param pages - Loaded pages
+ * @param pageMeta - Page bookkeeping
+ * @param getKey - Key resolver of items kept in evicted pages
+ * @returns Rows for the list
+ */
+export function buildRows<T>(
+  pages: T[][],
+  pageMeta: PageMeta[],
+  getKey?: ItemKeyResolver<T>,
+): Array<T | ItemPlaceholder> {
+  const rows: Array<T | ItemPlaceholder> = [];
+  pages.forEach((page, pageIndex) => {
+    const evictedKeys = pageMeta[pageIndex]?.evictedKeys;
+    if (evictedKeys) {
+      const kept = new Map(
+        getKey
+          ? page.map((item) => [getKey(item, rows.length), item] as const)
+          : [],
+      );
+      evictedKeys.forEach((key) =>
+        rows.push(kept.get(key) ?? new ItemPlaceholder(key, pageIndex)),
+      );
+    } else {
+      rows.push(...page);
+    }
+  });
+  return rows;
+}
+
+/**
+ * Keep the keys of evicted pages in step with items added to or removed
+ * from them while evicted (e.g. insertItem into an evicted first page)
+ * An added item goes after the kept item it follows; without one, to the
+ * start of the first page or the end of any other page
+ *
+ * @param previous - Pages before the change
+ * @param pages - Pages after the change
+ * @param pageMeta - Page bookkeeping
+ * @param getKey - Key resolver
+ * @returns Updated bookkeeping (same reference if nothing changed)
+ */
+export function syncEvictedKeys<T>(
+  previous: T[][],
+  pages: T[][],
+  pageMeta: PageMeta[],
+  getKey: ItemKeyResolver<T>,
+): PageMeta[] {
+  let changed = false;
+  let rowIndex = 0;
+  const next = pageMeta.map((meta, pageIndex) => {
+    const before = previous[pageIndex] ?? [];
+    const after = pages[pageIndex] ?? [];
+    const start = rowIndex;
+    rowIndex += meta.evictedKeys?.length ?? after.length;
+    if (!meta.evictedKeys || before === after) return meta;
+
+    const afterKeys = after.map((item, i) => getKey(item, start + i));
+    const kept = new Set(afterKeys);
+    const removed = new Set(
+      before
+        .map((item, i) => getKey(item, start + i))
+        .filter((key) => !kept.has(key)),
+    );
+    const evictedKeys = meta.evictedKeys.filter((key) => !removed.has(key));
+
+    afterKeys.forEach((key, i) => {
+      if (evictedKeys.includes(key)) return;
+      const previousKey = afterKeys
+        .slice(0, i)
+        .reverse()
+        .find((k) => evictedKeys.includes(k));
+      if (previousKey !== undefined) {
+        evictedKeys.splice(evictedKeys.indexOf(previousKey) + 1, 0, key);
+      } else if (pageIndex === 0) {
+        evictedKeys.unshift(key);
+      } else {
+        evictedKeys.push(key);
+      }
+    });
+
+    changed = true;
+    return { ...meta, evictedKeys };
+  });
+  return changed ? next : pageMeta;
+}
+
+/**
+ * Items of a restored page: the fetched items plus the items added while
+ * it was evicted, in their place before or after the fetched ones
+ *
+ * @param kept - Items added to the page while it was evicted
+ * @param evictedKeys - Keys of the evicted page
+ * @param fetched - Items fetched to restore the page
+ * @param getKey - Key resolver
+ * @returns Items of the restored page
+ */
+export function mergeRestoredPage<T>(
+  kept: T[],
+  evictedKeys: string[],
+  fetched: T[],
+  getKey: ItemKeyResolver<T>,
+): T[] {
+  if (kept.length === 0) return fetched;
+
+  const keptByKey = new Map(kept.map((item, i) => [getKey(item, i), item] as const));
+  const firstFetchedKey = evictedKeys.findIndex((key) => !keptByKey.has(key));
+  const leadingKeys =
+    firstFetchedKey < 0 ? evictedKeys : evictedKeys.slice(0, firstFetchedKey);
+  const leading = kept.filter((item, i) => leadingKeys.includes(getKey(item, i)));
+  const trailing = kept.filter((item, i) => !leadingKeys.includes(getKey(item, i)));
+  const rest = fetched.filter((item, i) => !keptByKey.has(getKey(item, i)));
+  return [...leading, ...rest, ...trailing];
+}
+
+/**
+ * Keys of the items of evicted pages
+ *
+ * @param pageMeta - Page bookkeeping
+ * @returns Keys of items not in memory
+ */
+export function getEvictedKeys(pageMeta: PageMeta[]): string[] {
+  return pageMeta.flatMap((meta) => meta.evictedKeys ?? []);
+}
+
+/**
+ * Evict the given pages, remembering their item keys
+ *
+ * @param pages - Loaded pages
+ * @param pageMeta - Page bookkeeping
+ * @param indices - Page indices to evict
+ * @param getKey - Key resolver
+ * @returns New pages and bookkeeping
+ */
+export function evictPages<T>(
+  pages: T[][],
+  pageMeta: PageMeta[],
+  indices: number[],
+  getKey: ItemKeyResolver<T>,
+): { pages: T[][]; pageMeta: PageMeta[] } {
+  const evict = new Set(indices);
+  let rowIndex = 0;
+  const nextPages: T[][] = [];
+  const nextMeta: PageMeta[] = [];
+
+  pages.forEach((page, index) => {
+    const meta = pageMeta[index];
+    if (evict.has(index) && !meta.evictedKeys) {
+      const evictedKeys = page.map((item, i) => getKey(item, rowIndex + i));
+      nextPages.push([]);
+      nextMeta.push({ ...meta, evictedKeys });
+    } else {
+      nextPages.push(page);
+      nextMeta.push(meta);
+    }
+    rowIndex += meta.evictedKeys?.length ?? page.length;
+  });
+
+  return { pages: nextPages, pageMeta: nextMeta };
+}
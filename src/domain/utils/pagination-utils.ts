@@ -7,9 +7,10 @@
 
 /**
  * Calculate onEndReachedThreshold from threshold value
- * Converts threshold (number of items) to percentage (0-1)
+ * Converts threshold to a fraction of the visible length (0-1), used by
+ * thresholdMode "viewport"
  *
- * @param threshold - Number of items from bottom to trigger load
+ * @param threshold - Threshold in percent of the visible length
  * @param defaultThreshold - Default threshold if not provided (default: 0.1 = 10%)
  * @returns Threshold value between 0.01 and 1.0
  */
@@ -61,3 +62,21 @@ export function hasMoreItems<T>(
   // If last page has fewer items than pageSize, we've reached the end
   return lastPage.length >= pageSize;
 }
+
+/**
+ * Calculate onEndReachedThreshold from a threshold in rows
+ * Converts rows to visible lengths using the number of rows on screen
+ *
+ * @param threshold - Number of rows from bottom to trigger load
+ * @param visibleRows - Number of rows on screen (undefined before layout)
+ * @returns Threshold in visible lengths, at least 0.01
+ */
+export function calculateRowThreshold(
+  threshold: number | undefined,
+  visibleRows: number | undefined,
+): number {
+  if (!threshold || !visibleRows) {
+    return calculateEndReachedThreshold(threshold);
+  }
+  return Math.max(0.01, threshold / visibleRows);
+}
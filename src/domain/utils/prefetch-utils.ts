@@ -0,0 +1,47 @@
+/**
+ * Prefetch Utilities
+ *
+ * Pure functions for sizing the prefetch buffer
+ * Follows SOLID, DRY, KISS principles
+ */
+
+/**
+ * Smoothed scroll velocity in rows per millisecond
+ *
+ * @param previous - Previous smoothed velocity (undefined before the first sample)
+ * @param rows - Rows scrolled forward since the last sample
+ * @param elapsed - Milliseconds since the last sample
+ * @returns Updated velocity
+ */
+export function updateScrollVelocity(
+  previous: number | undefined,
+  rows: number,
+  elapsed: number,
+): number | undefined {
+  if (elapsed <= 0) return previous;
+  const sample = Math.max(0, rows) / elapsed;
+  return previous === undefined ? sample : (previous + sample) / 2;
+}
+
+/**
+ * Number of pages to keep prefetched for the current scroll velocity
+ *
+ * @param maxPages - Configured prefetchPages
+ * @param pageSize - Items per page
+ * @param velocity - Rows per millisecond (undefined when not measured)
+ * @param fetchDuration - Duration of the last page fetch in milliseconds
+ * @returns Pages to prefetch, between 1 and maxPages (0 when disabled)
+ */
+export function getPrefetchDepth(
+  maxPages: number,
+  pageSize: number,
+  velocity?: number,
+  fetchDuration?: number,
+): number {
+  if (maxPages <= 0) return 0;
+  if (velocity === undefined || fetchDuration === undefined) return maxPages;
+
+  // Pages scrolled past while one page is fetched, plus one in reserve
+  const pagesPerFetch = (velocity * fetchDuration) / Math.max(1, pageSize);
+  return Math.max(1, Math.min(maxPages, Math.ceil(pagesPerFetch) + 1));
+}
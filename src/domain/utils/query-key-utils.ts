@@ -0,0 +1,33 @@
+/**
+ * Query Key Utilities
+ *
+ * Pure functions for comparing query keys by value
+ * Follows SOLID, DRY, KISS principles
+ */
+
+/**
+ * Serialize a query key so equal values produce equal strings
+ * (object keys are sorted, undefined properties are skipped)
+ *
+ * @param queryKey - Query key or params
+ * @returns Stable string representation
+ */
+export function hashQueryKey(queryKey: unknown): string {
+  return (
+    JSON.stringify(queryKey, (_, value: unknown) => {
+      if (
+        typeof value !== "object" ||
+        value === null ||
+        Array.isArray(value)
+      ) {
+        return value;
+      }
+      return Object.keys(value)
+        .sort()
+        .reduce<Record<string, unknown>>((sorted, key) => {
+          sorted[key] = (value as Record<string, unknown>)[key];
+          return sorted;
+        }, {});
+    }) ?? ""
+  );
+}
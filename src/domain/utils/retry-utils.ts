@@ -0,0 +1,109 @@
+/**
+ * Retry Utilities
+ *
+ * Functions for retrying async operations with exponential backoff
+ * Follows SOLID, DRY, KISS principles
+ */
+
+import type { RetryConfig } from "../types/retry-config";
+import { abortableDelay, isAbortError, throwIfAborted } from "./abort-utils";
+import { isRetryableError } from "./error-utils";
+
+const DEFAULT_RETRY = {
+  maxAttempts: 3,
+  baseDelay: 1000,
+  maxDelay: 30000,
+  factor: 2,
+  jitter: true,
+};
+
+/**
+ * Read a Retry-After value (seconds) from an error object
+ */
+function defaultGetRetryAfter(error: unknown): number | undefined {
+  if (typeof error === "object" && error !== null && "retryAfter" in error) {
+    const seconds = Number((error as { retryAfter: unknown }).retryAfter);
+    return Number.isFinite(seconds) && seconds >= 0 ? seconds * 1000 : undefined;
+  }
+  return undefined;
+}
+
+/**
+ * Calculate delay before the next attempt
+ *
+ * @param attempt - Attempt that just failed (1-indexed)
+ * @param config - Retry configuration
+ * @param error - Error thrown by the failed attempt
+ * @returns Delay in milliseconds
+ */
+export function calculateRetryDelay(
+  attempt: number,
+  config: RetryConfig,
+  error?: unknown,
+): number {
+  const getRetryAfter = config.getRetryAfter ?? defaultGetRetryAfter;
+  const retryAfter = getRetryAfter(error);
+  if (retryAfter !== undefined) {
+    return retryAfter;
+  }
+
+  const {
+    baseDelay = DEFAULT_RETRY.baseDelay,
+    maxDelay = DEFAULT_RETRY.maxDelay,
+    factor = DEFAULT_RETRY.factor,
+    jitter = DEFAULT_RETRY.jitter,
+  } = config;
+
+  const delay = Math.min(maxDelay, baseDelay * Math.pow(factor, attempt - 1));
+  return jitter ? delay / 2 + Math.random() * (delay / 2) : delay;
+}
+
+/**
+ * Get maximum number of attempts (1 when retry is not configured)
+ */
+export function getMaxAttempts(config?: RetryConfig): number {
+  if (!config) return 1;
+  return Math.max(1, config.maxAttempts ?? DEFAULT_RETRY.maxAttempts);
+}
+
+/**
+ * Run a task, retrying failures according to the retry configuration
+ *
+ * @param task - Async operation to run
+ * @param config - Retry configuration (no retries if undefined)
+ * @param onRetry - Called before each retry with the upcoming attempt (2-indexed)
+ * @param signal - Optional: Stops retrying and cancels the pending delay when aborted
+ * @returns Result of the first successful attempt
+ */
+export async function withRetry<R>(
+  task: () => Promise<R>,
+  config: RetryConfig | undefined,
+  onRetry?: (attempt: number, delay: number) => void,
+  signal?: AbortSignal,
+): Promise<R> {
+  const maxAttempts = getMaxAttempts(config);
+
+  for (let attempt = 1; ; attempt++) {
+    throwIfAborted(signal);
+    try {
+      return await task();
+    } catch (error) {
+      const canRetry =
+        config !== undefined &&
+        !signal?.aborted &&
+        !isAbortError(error) &&
+        attempt < maxAttempts &&
+        (config.shouldRetry
+          ? config.shouldRetry(error, attempt)
+          : isRetryableError(error));
+
+      if (!canRetry) {
+        throw error;
+      }
+
+      const delay = calculateRetryDelay(attempt, config, error);
+      onRetry?.(attempt + 1, delay);
+      await abortableDelay(delay, signal);
+    }
+  }
+}
@@ -0,0 +1,45 @@
+/**
+ * Section Utilities
+ *
+ * Pure functions for grouping loaded items into sections
+ * Follows SOLID, DRY, KISS principles
+ */
+
+import type { InfiniteScrollSection } from "../types/infinite-scroll-section";
+
+/**
+ * Group consecutive items into sections
+ * Items of a newly loaded page continue the last section when they share its
+ * group, so a day split across pages renders under a single header
+ *
+ * @param items - Loaded items, in list order
+ * @param groupBy - Group of an item (e.g. its day)
+ * @returns Sections in list order
+ */
+export function groupIntoSections<T>(
+  items: T[],
+  groupBy: (item: T) => string,
+): InfiniteScrollSection<T>[] {
+  const sections: InfiniteScrollSection<T>[] = [];
+  const seen = new Map<string, number>();
+  let current: InfiniteScrollSection<T> | undefined;
+
+  for (const item of items) {
+    const group = groupBy(item);
+    if (current && current.title === group) {
+      current.data.push(item);
+      continue;
+    }
+    // Unsorted data may return to an earlier group: keep keys unique
+    const count = seen.get(group) ?? 0;
+    seen.set(group, count + 1);
+    current = {
+      key: count === 0 ? group : `${group}-${count}`,
+      title: group,
+      data: [item],
+    };
+    sections.push(current);
+  }
+
+  return sections;
+}
@@ -0,0 +1,40 @@
+/**
+ * Skeleton Utilities
+ *
+ * Pure functions for skeleton rows shown while pages load
+ * Follows SOLID, DRY, KISS principles
+ */
+
+/**
+ * Stand-in row for an item that is still loading
+ */
+export class SkeletonRow {
+  readonly key: string;
+  readonly index: number;
+
+  constructor(key: string, index: number) {
+    this.key = key;
+    this.index = index;
+  }
+}
+
+/**
+ * Check if a row is a skeleton of a loading item
+ */
+export function isSkeletonRow(row: unknown): row is SkeletonRow {
+  return row instanceof SkeletonRow;
+}
+
+/**
+ * Create skeleton rows
+ *
+ * @param count - Number of rows
+ * @param prefix - Key prefix, distinct for initial load and load more
+ * @returns Skeleton rows with keys `${prefix}-${index}`
+ */
+export function createSkeletonRows(count: number, prefix: string): SkeletonRow[] {
+  return Array.from(
+    { length: Math.max(0, count) },
+    (_, index) => new SkeletonRow(`${prefix}-${index}`, index),
+  );
+}
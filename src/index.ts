@@ -11,27 +11,139 @@ export type {
   PaginatedResult,
   PageBasedConfig,
   CursorBasedConfig,
+  OffsetBasedConfig,
+  OffsetResult,
+  RelayBasedConfig,
+  RelayConnection,
+  RelayEdge,
+  RelayPageInfo,
 } from "./domain/types/infinite-scroll-config";
-export type { InfiniteScrollState } from "./domain/types/infinite-scroll-state";
+export type {
+  CacheConfig,
+  CacheSerializer,
+  CachedPages,
+} from "./domain/types/infinite-scroll-cache";
+export type {
+  InfiniteScrollError,
+  InfiniteScrollOperation,
+} from "./domain/types/infinite-scroll-error";
+export type { DedupeConfig, DedupeStrategy } from "./domain/types/dedupe-config";
+export type { PageMeta, PageRequest } from "./domain/types/page-window";
+export type { RetryConfig } from "./domain/types/retry-config";
+export type { HeadPollingConfig } from "./domain/types/head-polling-config";
+export type {
+  RealtimeHandlers,
+  RealtimeSubscribe,
+} from "./domain/types/realtime-config";
+export type {
+  InfiniteScrollState,
+  VisibleRange,
+} from "./domain/types/infinite-scroll-state";
 export type { UseInfiniteScrollReturn } from "./domain/types/infinite-scroll-return";
-export type { InfiniteScrollListProps } from "./domain/interfaces/infinite-scroll-list-props";
+export type {
+  InfiniteScrollListBaseProps,
+  InfiniteScrollListProps,
+} from "./domain/interfaces/infinite-scroll-list-props";
+export type { InfiniteScrollSectionListProps } from "./domain/interfaces/infinite-scroll-section-list-props";
+export type { InfiniteScrollSection } from "./domain/types/infinite-scroll-section";
+export type {
+  ListRenderer,
+  ListRendererProps,
+  ListRendererViewToken,
+} from "./domain/interfaces/list-renderer";
+export type { StorageAdapter } from "./domain/interfaces/storage-adapter";
+export type { FocusSource } from "./domain/interfaces/focus-source";
+export type { ConnectivityProvider } from "./domain/interfaces/connectivity-provider";
 export {
   calculateEndReachedThreshold,
+  calculateRowThreshold,
   getPageSlice,
   hasMoreItems,
 } from "./domain/utils/pagination-utils";
+export {
+  calculateRetryDelay,
+  getMaxAttempts,
+  withRetry,
+} from "./domain/utils/retry-utils";
+export { isAbortError } from "./domain/utils/abort-utils";
+export type {
+  ItemChanges,
+  ItemKeyResolver,
+} from "./domain/utils/item-mutation-utils";
+export {
+  diffItems,
+  insertIntoPages,
+  mapItemInPages,
+  mergePage,
+  repaginate,
+  revertItemChanges,
+} from "./domain/utils/item-mutation-utils";
+export {
+  ItemPlaceholder,
+  isItemPlaceholder,
+  buildRows,
+  evictPages,
+  getEvictedKeys,
+  getPageIndexForRow,
+  getPageWindow,
+  mergeRestoredPage,
+  syncEvictedKeys,
+} from "./domain/utils/page-window-utils";
+export {
+  getPrefetchDepth,
+  updateScrollVelocity,
+} from "./domain/utils/prefetch-utils";
+export { hashQueryKey } from "./domain/utils/query-key-utils";
+export {
+  SkeletonRow,
+  createSkeletonRows,
+  isSkeletonRow,
+} from "./domain/utils/skeleton-utils";
+export { groupIntoSections } from "./domain/utils/section-utils";
+export {
+  balanceMasonryColumns,
+  chunkIntoRows,
+} from "./domain/utils/grid-utils";
+export type { DedupeResult } from "./domain/utils/dedupe-utils";
+export { dedupePage } from "./domain/utils/dedupe-utils";
+export {
+  createInfiniteScrollError,
+  getErrorStatus,
+  isRetryableError,
+} from "./domain/utils/error-utils";
 
 // Application Layer
 export { InfiniteScrollService } from "./application/services/infinite-scroll.service";
+export { PageCacheService } from "./application/services/page-cache.service";
+export {
+  InfiniteScrollController,
+  createInfiniteScrollController,
+} from "./application/controllers/infinite-scroll.controller";
+export type { InfiniteScrollClientOptions } from "./application/controllers/infinite-scroll-client";
+export { InfiniteScrollClient } from "./application/controllers/infinite-scroll-client";
 
 // Infrastructure Layer
-export type { StorageAdapter } from "./infrastructure/storage/local-storage.adapter";
 export { LocalStorageAdapter } from "./infrastructure/storage/local-storage.adapter";
+export { MemoryStorageAdapter } from "./infrastructure/storage/memory-storage.adapter";
+export type { AsyncStorageLike } from "./infrastructure/storage/async-storage.adapter";
+export { AsyncStorageAdapter } from "./infrastructure/storage/async-storage.adapter";
+export type { ManagedStorageOptions } from "./infrastructure/storage/managed-storage.adapter";
+export { ManagedStorageAdapter } from "./infrastructure/storage/managed-storage.adapter";
 
 // Presentation Layer
 export { useInfiniteScroll } from "./presentation/hooks/useInfiniteScroll";
+export { useInfiniteScrollClient } from "./presentation/hooks/useInfiniteScrollClient";
+export type { InfiniteScrollProviderProps } from "./presentation/components/infinite-scroll-provider";
+export { InfiniteScrollProvider } from "./presentation/components/infinite-scroll-provider";
 export { InfiniteScrollList } from "./presentation/components/infinite-scroll-list";
+export { InfiniteScrollSectionList } from "./presentation/components/infinite-scroll-section-list";
+export { FlatListRenderer } from "./presentation/components/flat-list-renderer";
+export { ScrollViewRenderer } from "./presentation/components/scroll-view-renderer";
 export { Loading } from "./presentation/components/loading";
 export { LoadingMore } from "./presentation/components/loading-more";
 export { Empty } from "./presentation/components/empty";
 export { Error } from "./presentation/components/error";
+export { InlineError } from "./presentation/components/inline-error";
+export { Skeleton, SkeletonItem } from "./presentation/components/skeleton";
+export { NewItemsBanner } from "./presentation/components/new-items-banner";
+export { OfflineBanner } from "./presentation/components/offline-banner";
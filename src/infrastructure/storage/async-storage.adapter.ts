@@ -0,0 +1,65 @@
+/**
+ * Async Storage Adapter
+ *
+ * Infrastructure adapter for AsyncStorage-compatible stores
+ * Follows SOLID, DRY, KISS principles
+ * Single Responsibility: Wrap any AsyncStorage-shaped object as a StorageAdapter
+ */
+
+import type { StorageAdapter } from "../../domain/interfaces/storage-adapter";
+
+/**
+ * Minimal shape of @react-native-async-storage/async-storage
+ * (or MMKV / SecureStore wrappers exposing the same methods)
+ */
+export interface AsyncStorageLike {
+  getItem(key: string): Promise<string | null>;
+  setItem(key: string, value: string): Promise<void>;
+  removeItem(key: string): Promise<void>;
+  clear?(): Promise<void>;
+}
+
+export class AsyncStorageAdapter implements StorageAdapter {
+  private storage: AsyncStorageLike;
+
+  constructor(storage: AsyncStorageLike) {
+    this.storage = storage;
+  }
+
+  async getItem(key: string): Promise<string | null> {
+    try {
+      return await this.storage.getItem(key);
+    } catch (error) {
+      console.warn("AsyncStorageAdapter: Failed to get item", error);
+      return null;
+    }
+  }
+
+  async setItem(key: string, value: string): Promise<void> {
+    try {
+      await this.storage.setItem(key, value);
+    } catch (error) {
+      console.warn("AsyncStorageAdapter: Failed to set item", error);
+    }
+  }
+
+  async removeItem(key: string): Promise<void> {
+    try {
+      await this.storage.removeItem(key);
+    } catch (error) {
+      console.warn("AsyncStorageAdapter: Failed to remove item", error);
+    }
+  }
+
+  async clear(): Promise<void> {
+    if (!this.storage.clear) {
+      console.warn("AsyncStorageAdapter: Underlying storage has no clear()");
+      return;
+    }
+    try {
+      await this.storage.clear();
+    } catch (error) {
+      console.warn("AsyncStorageAdapter: Failed to clear storage", error);
+    }
+  }
+}
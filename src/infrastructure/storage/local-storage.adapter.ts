@@ -4,14 +4,14 @@
  * Infrastructure adapter for local storage operations
  * Follows SOLID, DRY, KISS principles
  * Single Responsibility: Local storage abstraction
+ *
+ * Web only: React Native has no localStorage global, use
+ * AsyncStorageAdapter or MemoryStorageAdapter on iOS/Android
  */
 
-export interface StorageAdapter {
-  getItem(key: string): Promise<string | null>;
-  setItem(key: string, value: string): Promise<void>;
-  removeItem(key: string): Promise<void>;
-  clear(): Promise<void>;
-}
+import type { StorageAdapter } from "../../domain/interfaces/storage-adapter";
+
+export type { StorageAdapter };
 
 export class LocalStorageAdapter implements StorageAdapter {
   async getItem(key: string): Promise<string | null> {
@@ -0,0 +1,297 @@
+/**
+ * Managed Storage Adapter
+ *
+ * Infrastructure decorator over any StorageAdapter
+ * Follows SOLID, DRY, KISS principles
+ * Single Responsibility: Namespacing, expiry, quotas and versioning of stored entries
+ */
+
+import type { StorageAdapter } from "../../domain/interfaces/storage-adapter";
+
+export interface ManagedStorageOptions {
+  /**
+   * Prefix applied to every key (e.g. "infinite-scroll")
+   */
+  namespace: string;
+
+  /**
+   * Optional: Schema version of stored values
+   * Entries written by another version are migrated or discarded
+   * Default: 1
+   */
+  version?: number;
+
+  /**
+   * Optional: Default entry lifetime in milliseconds
+   * Default: no expiry
+   */
+  ttl?: number;
+
+  /**
+   * Optional: Maximum total size of stored values (in characters)
+   * Least recently used entries are evicted when exceeded
+   */
+  maxSize?: number;
+
+  /**
+   * Optional: Maximum number of entries
+   * Least recently used entries are evicted when exceeded
+   */
+  maxEntries?: number;
+
+  /**
+   * Optional: Upgrade a value written by an older version
+   * @param value - Stored value
+   * @param fromVersion - Version the value was written with
+   * @returns Migrated value, or null to discard it
+   */
+  migrate?: (value: string, fromVersion: number) => string | null;
+}
+
+/**
+ * Stored form of every value
+ */
+interface Envelope {
+  version: number;
+  expiresAt: number | null;
+  value: string;
+}
+
+/**
+ * Bookkeeping for namespace-wide operations (clear, LRU eviction)
+ */
+interface IndexEntry {
+  size: number;
+
+  /**
+   * Monotonic access counter (timestamps tie within the same millisecond)
+   */
+  lastAccess: number;
+}
+
+type StorageIndex = Record<string, IndexEntry>;
+
+const INDEX_KEY = "__index__";
+
+export class ManagedStorageAdapter implements StorageAdapter {
+  private storage: StorageAdapter;
+  private options: ManagedStorageOptions;
+  private index: StorageIndex | null = null;
+  private queue: Promise<unknown> = Promise.resolve();
+  private accessCounter = 0;
+
+  constructor(storage: StorageAdapter, options: ManagedStorageOptions) {
+    this.storage = storage;
+    this.options = options;
+  }
+
+  async getItem(key: string): Promise<string | null> {
+    return this.enqueue(async () => {
+      const raw = await this.storage.getItem(this.storageKey(key));
+      const index = await this.loadIndex();
+
+      if (raw === null) {
+        if (index[key]) {
+          delete index[key];
+          await this.saveIndex();
+        }
+        return null;
+      }
+
+      const envelope = this.parse(raw);
+      const value = envelope ? this.unwrap(envelope) : null;
+      if (!envelope || value === null) {
+        await this.removeEntry(key);
+        return null;
+      }
+
+      if (envelope.version !== this.version) {
+        // Entry was migrated; rewrite it under the current version
+        await this.writeEntry(key, value, envelope.expiresAt);
+      } else {
+        index[key] = { size: raw.length, lastAccess: this.nextAccess() };
+        await this.saveIndex();
+      }
+
+      return value;
+    });
+  }
+
+  /**
+   * Store a value
+   * @param ttl - Optional lifetime in milliseconds, overrides the default ttl
+   */
+  async setItem(key: string, value: string, ttl?: number): Promise<void> {
+    return this.enqueue(async () => {
+      const lifetime = ttl ?? this.options.ttl;
+      const expiresAt = lifetime === undefined ? null : Date.now() + lifetime;
+      await this.writeEntry(key, value, expiresAt);
+    });
+  }
+
+  async removeItem(key: string): Promise<void> {
+    return this.enqueue(() => this.removeEntry(key));
+  }
+
+  /**
+   * Remove every entry in this namespace (other keys are left untouched)
+   */
+  async clear(): Promise<void> {
+    return this.enqueue(async () => {
+      const index = await this.loadIndex();
+      await Promise.all(
+        Object.keys(index).map((key) =>
+          this.storage.removeItem(this.storageKey(key)),
+        ),
+      );
+      this.index = {};
+      await this.storage.removeItem(this.storageKey(INDEX_KEY));
+    });
+  }
+
+  private get version(): number {
+    return this.options.version ?? 1;
+  }
+
+  private nextAccess(): number {
+    this.accessCounter += 1;
+    return this.accessCounter;
+  }
+
+  private storageKey(key: string): string {
+    return `${this.options.namespace}:${key}`;
+  }
+
+  /**
+   * Run operations one at a time so the index stays consistent
+   */
+  private enqueue<R>(task: () => Promise<R>): Promise<R> {
+    const result = this.queue.then(task, task);
+    this.queue = result.catch(() => undefined);
+    return result;
+  }
+
+  private parse(raw: string): Envelope | null {
+    try {
+      const envelope = JSON.parse(raw) as Envelope;
+      if (
+        typeof envelope !== "object" ||
+        envelope === null ||
+        typeof envelope.value !== "string" ||
+        typeof envelope.version !== "number"
+      ) {
+        return null;
+      }
+      return envelope;
+    } catch {
+      return null;
+    }
+  }
+
+  /**
+   * Return the usable value of a stored envelope, or null if it must be dropped
+   */
+  private unwrap(envelope: Envelope): string | null {
+    if (envelope.expiresAt !== null && envelope.expiresAt <= Date.now()) {
+      return null;
+    }
+
+    if (envelope.version === this.version) {
+      return envelope.value;
+    }
+
+    if (!this.options.migrate) return null;
+
+    try {
+      return this.options.migrate(envelope.value, envelope.version);
+    } catch (error) {
+      console.warn("ManagedStorageAdapter: Failed to migrate entry", error);
+      return null;
+    }
+  }
+
+  private async writeEntry(
+    key: string,
+    value: string,
+    expiresAt: number | null,
+  ): Promise<void> {
+    const envelope: Envelope = { version: this.version, expiresAt, value };
+    const raw = JSON.stringify(envelope);
+
+    if (this.options.maxSize !== undefined && raw.length > this.options.maxSize) {
+      console.warn(
+        `ManagedStorageAdapter: Entry "${key}" exceeds maxSize and was not stored`,
+      );
+      await this.removeEntry(key);
+      return;
+    }
+
+    await this.storage.setItem(this.storageKey(key), raw);
+
+    const index = await this.loadIndex();
+    index[key] = { size: raw.length, lastAccess: this.nextAccess() };
+    await this.evict(key);
+    await this.saveIndex();
+  }
+
+  private async removeEntry(key: string): Promise<void> {
+    await this.storage.removeItem(this.storageKey(key));
+    const index = await this.loadIndex();
+    if (index[key]) {
+      delete index[key];
+      await this.saveIndex();
+    }
+  }
+
+  /**
+   * Evict least recently used entries until quotas are met
+   */
+  private async evict(keep: string): Promise<void> {
+    const { maxSize, maxEntries } = this.options;
+    if (maxSize === undefined && maxEntries === undefined) return;
+
+    const index = await this.loadIndex();
+    const candidates = Object.keys(index)
+      .filter((key) => key !== keep)
+      .sort((a, b) => index[a].lastAccess - index[b].lastAccess);
+
+    const totalSize = () =>
+      Object.values(index).reduce((sum, entry) => sum + entry.size, 0);
+    const overQuota = () =>
+      (maxSize !== undefined && totalSize() > maxSize) ||
+      (maxEntries !== undefined && Object.keys(index).length > maxEntries);
+
+    for (const key of candidates) {
+      if (!overQuota()) break;
+      delete index[key];
+      await this.storage.removeItem(this.storageKey(key));
+    }
+  }
+
+  private async loadIndex(): Promise<StorageIndex> {
+    if (this.index) return this.index;
+
+    const raw = await this.storage.getItem(this.storageKey(INDEX_KEY));
+    let index: StorageIndex = {};
+    if (raw) {
+      try {
+        index = JSON.parse(raw) as StorageIndex;
+      } catch {
+        index = {};
+      }
+    }
+    this.index = index;
+    this.accessCounter = Object.values(index).reduce(
+      (max, entry) => Math.max(max, entry.lastAccess ?? 0),
+      0,
+    );
+    return index;
+  }
+
+  private async saveIndex(): Promise<void> {
+    await this.storage.setItem(
+      this.storageKey(INDEX_KEY),
+      JSON.stringify(this.index ?? {}),
+    );
+  }
+}
@@ -0,0 +1,29 @@
+/**
+ * Memory Storage Adapter
+ *
+ * Infrastructure adapter for in-memory storage
+ * Follows SOLID, DRY, KISS principles
+ * Single Responsibility: Process-lifetime storage (tests, session-only caches)
+ */
+
+import type { StorageAdapter } from "../../domain/interfaces/storage-adapter";
+
+export class MemoryStorageAdapter implements StorageAdapter {
+  private store = new Map<string, string>();
+
+  async getItem(key: string): Promise<string | null> {
+    return this.store.has(key) ? (this.store.get(key) as string) : null;
+  }
+
+  async setItem(key: string, value: string): Promise<void> {
+    this.store.set(key, value);
+  }
+
+  async removeItem(key: string): Promise<void> {
+    this.store.delete(key);
+  }
+
+  async clear(): Promise<void> {
+    this.store.clear();
+  }
+}
@@ -0,0 +1,17 @@
+/**
+ * FlatList Renderer
+ *
+ * Default list renderer of InfiniteScrollList
+ * Follows SOLID, DRY, KISS principles
+ */
+
+import React from "react";
+import { FlatList } from "react-native";
+import type { ListRendererProps } from "../../domain/interfaces/list-renderer";
+
+export function FlatListRenderer<T>({
+  extraProps,
+  ...props
+}: ListRendererProps<T>): React.ReactElement {
+  return <FlatList<T> {...props} {...extraProps} />;
+}
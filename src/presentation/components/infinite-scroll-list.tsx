@@ -7,33 +7,70 @@
  */
 
 import React from "react";
-import { FlatList, StyleSheet } from "react-native";
+import { StyleSheet, View } from "react-native";
+import type { LayoutChangeEvent } from "react-native";
 import { useInfiniteScroll } from "../hooks/useInfiniteScroll";
-import { calculateEndReachedThreshold } from "../../domain/utils/pagination-utils";
+import { useEdgeReached } from "../hooks/useEdgeReached";
+import {
+  DEFAULT_CONFIG,
+  isBidirectional,
+} from "../../application/controllers/pagination.helper";
+import {
+  calculateEndReachedThreshold,
+  calculateRowThreshold,
+} from "../../domain/utils/pagination-utils";
+import {
+  balanceMasonryColumns,
+  chunkIntoRows,
+} from "../../domain/utils/grid-utils";
+import { isItemPlaceholder } from "../../domain/utils/page-window-utils";
+import type { ItemPlaceholder } from "../../domain/utils/page-window-utils";
+import { isSkeletonRow } from "../../domain/utils/skeleton-utils";
+import type { SkeletonRow } from "../../domain/utils/skeleton-utils";
 import type { InfiniteScrollListProps } from "../../domain/interfaces/infinite-scroll-list-props";
-import { Loading } from "./loading";
-import { LoadingMore } from "./loading-more";
-import { Empty } from "./empty";
-import { Error } from "./error";
+import type {
+  ListRenderer,
+  ListRendererProps,
+  ListRendererViewToken,
+} from "../../domain/interfaces/list-renderer";
+import { FlatListRenderer } from "./flat-list-renderer";
+import {
+  getSkeletonRows,
+  renderListFooter,
+  renderListHeader,
+  renderListStatus,
+  renderSkeletonRow,
+  withBanners,
+} from "./list-status";
+
+type Row<T> = T | ItemPlaceholder | SkeletonRow;
 
 /**
- * Render error component
+ * Viewable item tokens of grid rows, expanded to one token per item
  */
-function renderErrorComponent(
-  error: string,
-  retry: () => void,
-  errorComponent?: (error: string, retry: () => void) => React.ReactElement,
-): React.ReactElement {
-  if (errorComponent) {
-    return errorComponent(error, retry);
-  }
-  return <Error error={error} onRetry={retry} />;
+function expandGridTokens<T>(
+  tokens: ListRendererViewToken<unknown>[],
+  columns: number,
+  keyOf: (row: Row<T>, index: number) => string,
+): ListRendererViewToken<Row<T>>[] {
+  return tokens.flatMap((token) =>
+    (token.item as Row<T>[]).map((row, column) => {
+      const index = token.index === null ? null : token.index * columns + column;
+      return {
+        item: row,
+        index,
+        key: keyOf(row, index ?? column),
+        isViewable: token.isViewable,
+      };
+    }),
+  );
 }
 
 /**
  * InfiniteScrollList Component
  *
- * FlatList wrapper with automatic infinite scroll and pagination
+ * List with automatic infinite scroll and pagination
+ * Rendered by a FlatList unless another renderer is passed
  *
  * @example
  * ```tsx
@@ -48,26 +85,72 @@ function renderErrorComponent(
  *   }}
  *   renderItem={(item) => <ItemCard item={item} />}
  * />
+ *
+ * // Photo grid, balanced by image height
+ * <InfiniteScrollList
+ *   config={config}
+ *   columns={2}
+ *   masonry
+ *   estimateItemHeight={(photo) => 180 / photo.aspectRatio}
+ *   renderItem={(photo) => <PhotoTile photo={photo} />}
+ * />
  * ```
  */
-export function InfiniteScrollList<T>({
-  config,
-  renderItem,
-  loadingComponent,
-  loadingMoreComponent,
-  emptyComponent,
-  errorComponent,
-  ListHeaderComponent,
-  ListFooterComponent,
-  flatListProps,
-}: InfiniteScrollListProps<T>): React.ReactElement {
-  const { items, state, loadMore, refresh, canLoadMore } = useInfiniteScroll(config);
-
-  const handleEndReached = React.useCallback(() => {
-    if (canLoadMore && config.autoLoad !== false) {
-      loadMore();
-    }
-  }, [canLoadMore, loadMore, config.autoLoad]);
+export function InfiniteScrollList<T, P = unknown>(
+  props: InfiniteScrollListProps<T, P>,
+): React.ReactElement {
+  const {
+    config,
+    renderItem,
+    columns = 1,
+    masonry = false,
+    estimateItemHeight,
+    rendererProps,
+    flatListProps,
+  } = props;
+  // Rows are items, grid rows or masonry columns depending on the layout
+  const Renderer: ListRenderer<unknown> = props.renderer ?? FlatListRenderer;
+  const grid = columns > 1 && !masonry;
+  const isMasonry = columns > 1 && masonry;
+  const viewportThreshold = config.thresholdMode === "viewport";
+
+  // In a grid, threshold counts rows while the controller counts items
+  const scrollConfig =
+    grid && !viewportThreshold
+      ? {
+          ...config,
+          threshold: (config.threshold ?? DEFAULT_CONFIG.threshold) * columns,
+        }
+      : config;
+  const scroll = useInfiniteScroll(scrollConfig);
+  const { items, rows, state, refresh, setVisibleRange } = scroll;
+  const { handleEndReached, handleStartReached } = useEdgeReached(
+    config,
+    scroll,
+  );
+
+  const windowed = config.maxPagesInMemory !== undefined;
+  // Visible range drives the item threshold, the page window, the prefetch
+  // depth and the viewport threshold of grids; a masonry list is a single row
+  const tracksVisibleRange =
+    !isMasonry &&
+    (!viewportThreshold ||
+      windowed ||
+      grid ||
+      (config.prefetchPages ?? 0) > 0);
+  // Rows on screen, to convert a threshold in rows to visible lengths
+  const [visibleRows, setVisibleRows] = React.useState<number>();
+  // Height of a masonry list, to estimate the tiles on screen
+  const [viewportHeight, setViewportHeight] = React.useState<number>();
+
+  const { onViewableItemsChanged, ...extraProps } = {
+    ...flatListProps,
+    ...rendererProps,
+  } as Record<string, unknown> & {
+    onViewableItemsChanged?: ListRendererProps<unknown>["onViewableItemsChanged"];
+  };
+
+  const bidirectional = isBidirectional(config);
 
   const getItemKey = React.useCallback(
     (item: T, index: number): string => {
@@ -79,39 +162,243 @@ export function InfiniteScrollList<T>({
     [config],
   );
 
-  // Loading state
-  if (state.isLoading) {
-    return loadingComponent || <Loading />;
+  const getRowKey = (row: Row<T>, index: number): string =>
+    isItemPlaceholder(row) || isSkeletonRow(row)
+      ? row.key
+      : getItemKey(row, index);
+
+  // Measured row heights by key, so placeholders of evicted items keep their
+  // size and masonry columns balance by real heights
+  const itemHeightsRef = React.useRef(new Map<string, number>());
+  const masonryColumnsRef = React.useRef(new Map<string, number>());
+
+  // FlatList does not allow changing onViewableItemsChanged, so keep it stable
+  const userViewableItemsChangedRef = React.useRef(onViewableItemsChanged);
+  userViewableItemsChangedRef.current = onViewableItemsChanged;
+  const latestRef = React.useRef({ grid, columns, setVisibleRange, getRowKey });
+  latestRef.current = { grid, columns, setVisibleRange, getRowKey };
+  const handleViewableItemsChanged = React.useRef(
+    (info: {
+      viewableItems: ListRendererViewToken<unknown>[];
+      changed: ListRendererViewToken<unknown>[];
+    }) => {
+      const latest = latestRef.current;
+      let viewableItems = info.viewableItems as ListRendererViewToken<Row<T>>[];
+      let changed = info.changed as ListRendererViewToken<Row<T>>[];
+      if (latest.grid) {
+        setVisibleRows(info.viewableItems.length || undefined);
+        viewableItems = expandGridTokens(
+          info.viewableItems,
+          latest.columns,
+          latest.getRowKey,
+        );
+        changed = expandGridTokens(info.changed, latest.columns, latest.getRowKey);
+      }
+      const indices = viewableItems
+        .filter((token) => !isSkeletonRow(token.item))
+        .map((token) => token.index)
+        .filter((index): index is number => index !== null);
+      if (indices.length > 0) {
+        latest.setVisibleRange(Math.min(...indices), Math.max(...indices));
+      }
+      userViewableItemsChangedRef.current?.({ viewableItems, changed });
+    },
+  ).current;
+
+  // Items of each masonry column; placed items keep their column
+  const masonryColumns = React.useMemo(() => {
+    if (!isMasonry) return [];
+    const keyed = items.map((item, index) => {
+      const key = getItemKey(item, index);
+      const height =
+        itemHeightsRef.current.get(key) ?? estimateItemHeight?.(item) ?? 1;
+      return { item, index, key, height };
+    });
+    masonryColumnsRef.current = balanceMasonryColumns(
+      keyed,
+      columns,
+      masonryColumnsRef.current,
+    );
+    const result = Array.from(
+      { length: columns },
+      () => [] as Array<{ item: T; index: number; key: string }>,
+    );
+    for (const entry of keyed) {
+      result[masonryColumnsRef.current.get(entry.key) ?? 0].push(entry);
+    }
+    return result;
+    // estimateItemHeight only affects items placed from now on
+  }, [isMasonry, items, columns, getItemKey]);
+
+  const renderCell = (row: Row<T>, index: number): React.ReactElement => {
+    if (isSkeletonRow(row)) {
+      return renderSkeletonRow(row, props);
+    }
+    if (isItemPlaceholder(row)) {
+      return (
+        <View style={{ height: itemHeightsRef.current.get(row.key) ?? 0 }} />
+      );
+    }
+    if (!windowed && !isMasonry) {
+      return renderItem(row, index);
+    }
+    const key = getItemKey(row, index);
+    return (
+      <View
+        onLayout={(event: LayoutChangeEvent) => {
+          itemHeightsRef.current.set(key, event.nativeEvent.layout.height);
+        }}
+      >
+        {renderItem(row, index)}
+      </View>
+    );
+  };
+
+  const status = renderListStatus(scroll, rows.length === 0, props);
+  if (status) {
+    return status;
   }
 
-  // Error state
-  if (state.error) {
-    return renderErrorComponent(state.error, refresh, errorComponent);
+  // Skeletons replace the rows during the initial load and follow them
+  // while the next page loads
+  const skeletonRows = getSkeletonRows(scroll, props);
+  const dataRows: Row<T>[] = state.isLoading
+    ? skeletonRows
+    : [...rows, ...skeletonRows];
+
+  // Renderers pass rows back as they received them
+  let layout: Pick<
+    ListRendererProps<unknown>,
+    "data" | "renderItem" | "keyExtractor"
+  >;
+  if (isMasonry) {
+    layout = {
+      data: [masonryColumns],
+      renderItem: () => (
+        <View style={styles.row}>
+          {masonryColumns.map((column, columnIndex) => (
+            <View key={columnIndex} style={styles.cell}>
+              {column.map(({ item, index, key }) => (
+                <React.Fragment key={key}>{renderCell(item, index)}</React.Fragment>
+              ))}
+              {skeletonRows
+                .filter((row) => row.index % columns === columnIndex)
+                .map((row) => (
+                  <React.Fragment key={row.key}>
+                    {renderSkeletonRow(row, props)}
+                  </React.Fragment>
+                ))}
+            </View>
+          ))}
+        </View>
+      ),
+      keyExtractor: () => "masonry",
+    };
+  } else if (grid) {
+    layout = {
+      data: chunkIntoRows(dataRows, columns),
+      renderItem: ({ item, index }) => {
+        const cells = item as Row<T>[];
+        return (
+          <View style={styles.row}>
+            {cells.map((cell, column) => {
+              const itemIndex = index * columns + column;
+              return (
+                <View key={getRowKey(cell, itemIndex)} style={styles.cell}>
+                  {renderCell(cell, itemIndex)}
+                </View>
+              );
+            })}
+            {/* Keep cells of an incomplete last row at column width */}
+            {Array.from({ length: columns - cells.length }, (_, spacer) => (
+              <View key={`spacer-${spacer}`} style={styles.cell} />
+            ))}
+          </View>
+        );
+      },
+      keyExtractor: (cells, index) =>
+        getRowKey((cells as Row<T>[])[0], index * columns),
+    };
+  } else {
+    layout = {
+      data: dataRows,
+      renderItem: ({ item, index }) => renderCell(item as Row<T>, index),
+      keyExtractor: (row, index) => getRowKey(row as Row<T>, index),
+    };
   }
 
-  // Empty state
-  if (items.length === 0 && !state.isLoading) {
-    return emptyComponent || <Empty />;
+  // With an item threshold, onEndReached is a fallback for renderers that
+  // do not report viewable items; masonry lists rely on it, counting the
+  // tiles on screen from their average measured height
+  let threshold: number;
+  if (isMasonry && !viewportThreshold) {
+    const heights = items
+      .map((item, index) => itemHeightsRef.current.get(getItemKey(item, index)))
+      .filter((height): height is number => (height ?? 0) > 0);
+    const averageHeight =
+      heights.reduce((sum, height) => sum + height, 0) / heights.length;
+    threshold = calculateRowThreshold(
+      config.threshold ?? DEFAULT_CONFIG.threshold,
+      viewportHeight && heights.length > 0
+        ? (viewportHeight / averageHeight) * columns
+        : undefined,
+    );
+  } else if (viewportThreshold) {
+    threshold = grid
+      ? calculateRowThreshold(config.threshold, visibleRows)
+      : calculateEndReachedThreshold(config.threshold);
+  } else {
+    threshold = calculateEndReachedThreshold();
   }
 
   // Render list
-  return (
-    <FlatList
-      data={items}
-      renderItem={({ item, index }) => renderItem(item, index)}
-      keyExtractor={(item, index) => getItemKey(item, index)}
+  const list = (
+    <Renderer
+      {...layout}
       onEndReached={handleEndReached}
-      onEndReachedThreshold={calculateEndReachedThreshold(config.threshold)}
+      onEndReachedThreshold={threshold}
+      onStartReached={bidirectional ? handleStartReached : undefined}
+      onStartReachedThreshold={threshold}
+      // Keep the visible items anchored when older pages are prepended
+      maintainVisibleContentPosition={
+        bidirectional ? { minIndexForVisible: 0 } : undefined
+      }
       onRefresh={refresh}
       refreshing={state.isRefreshing}
-      ListHeaderComponent={ListHeaderComponent}
-      ListFooterComponent={
-        <>
-          {ListFooterComponent}
-          {state.isLoadingMore && (loadingMoreComponent || <LoadingMore />)}
-        </>
+      ListHeaderComponent={renderListHeader(scroll, props)}
+      ListFooterComponent={renderListFooter(scroll, props)}
+      onViewableItemsChanged={
+        tracksVisibleRange ? handleViewableItemsChanged : onViewableItemsChanged
       }
-      {...flatListProps}
+      extraProps={extraProps}
     />
   );
+  return withBanners(
+    isMasonry ? (
+      <View
+        style={styles.viewport}
+        onLayout={(event: LayoutChangeEvent) =>
+          setViewportHeight(event.nativeEvent.layout.height)
+        }
+      >
+        {list}
+      </View>
+    ) : (
+      list
+    ),
+    scroll,
+    props,
+  );
 }
+
+const styles = StyleSheet.create({
+  row: {
+    flexDirection: "row",
+  },
+  cell: {
+    flex: 1,
+  },
+  viewport: {
+    flex: 1,
+  },
+});
@@ -0,0 +1,48 @@
+/**
+ * InfiniteScrollProvider Component
+ *
+ * Presentation component providing a shared InfiniteScrollClient
+ * Follows SOLID, DRY, KISS principles
+ * Single Responsibility: Share list states across screens
+ */
+
+import React from "react";
+import { InfiniteScrollClient } from "../../application/controllers/infinite-scroll-client";
+
+export const InfiniteScrollContext =
+  React.createContext<InfiniteScrollClient | null>(null);
+
+export interface InfiniteScrollProviderProps {
+  /**
+   * Optional: Client to share (e.g. to call invalidate from outside components)
+   * Default: a client created by the provider
+   */
+  client?: InfiniteScrollClient;
+  children?: React.ReactNode;
+}
+
+/**
+ * InfiniteScrollProvider Component
+ *
+ * Lists inside the provider with the same queryKey share pages and loading status
+ *
+ * @example
+ * ```tsx
+ * const client = new InfiniteScrollClient();
+ *
+ * <InfiniteScrollProvider client={client}>
+ *   <App />
+ * </InfiniteScrollProvider>
+ * ```
+ */
+export function InfiniteScrollProvider({
+  client,
+  children,
+}: InfiniteScrollProviderProps): React.ReactElement {
+  const [defaultClient] = React.useState(() => new InfiniteScrollClient());
+  return (
+    <InfiniteScrollContext.Provider value={client ?? defaultClient}>
+      {children}
+    </InfiniteScrollContext.Provider>
+  );
+}
@@ -0,0 +1,187 @@
+/**
+ * InfiniteScrollSectionList Component
+ *
+ * Presentation component for infinite scroll lists grouped into sections
+ * Follows SOLID, DRY, KISS principles
+ * Single Responsibility: Render grouped infinite scroll list
+ */
+
+import React from "react";
+import { SectionList } from "react-native";
+import type { SectionListProps, ViewToken } from "react-native";
+import { useInfiniteScroll } from "../hooks/useInfiniteScroll";
+import { useEdgeReached } from "../hooks/useEdgeReached";
+import { isBidirectional } from "../../application/controllers/pagination.helper";
+import { calculateEndReachedThreshold } from "../../domain/utils/pagination-utils";
+import { groupIntoSections } from "../../domain/utils/section-utils";
+import { isSkeletonRow } from "../../domain/utils/skeleton-utils";
+import type { SkeletonRow } from "../../domain/utils/skeleton-utils";
+import type { InfiniteScrollSection } from "../../domain/types/infinite-scroll-section";
+import type { InfiniteScrollSectionListProps } from "../../domain/interfaces/infinite-scroll-section-list-props";
+import {
+  getSkeletonRows,
+  renderListFooter,
+  renderListHeader,
+  renderListStatus,
+  renderSkeletonRow,
+  withBanners,
+} from "./list-status";
+
+/**
+ * InfiniteScrollSectionList Component
+ *
+ * SectionList wrapper with automatic infinite scroll and pagination
+ * Renders all loaded items: maxPagesInMemory is not supported
+ *
+ * @example
+ * ```tsx
+ * <InfiniteScrollSectionList
+ *   config={{
+ *     pageSize: 20,
+ *     fetchData: (page, pageSize) => api.getTransactions({ page, limit: pageSize }),
+ *     getItemKey: (tx) => tx.id,
+ *   }}
+ *   groupBy={(tx) => tx.createdAt.slice(0, 10)}
+ *   renderSectionHeader={(section) => <DayHeader day={section.title} />}
+ *   renderItem={(tx) => <TransactionRow transaction={tx} />}
+ * />
+ * ```
+ */
+export function InfiniteScrollSectionList<T, P = unknown>(
+  props: InfiniteScrollSectionListProps<T, P>,
+): React.ReactElement {
+  const {
+    config,
+    renderItem,
+    groupBy,
+    renderSectionHeader,
+    stickySectionHeaders = true,
+    sectionListProps,
+  } = props;
+  const scroll = useInfiniteScroll(config);
+  const { items, state, refresh, setVisibleRange } = scroll;
+  const { handleEndReached, handleStartReached } = useEdgeReached(
+    config,
+    scroll,
+  );
+
+  const groupByRef = React.useRef(groupBy);
+  groupByRef.current = groupBy;
+  const sections = React.useMemo(
+    () => groupIntoSections(items, (item) => groupByRef.current(item)),
+    [items],
+  );
+
+  // Index of each section's first item in the flat list of items
+  const sectionOffsets = React.useMemo(() => {
+    const offsets = new Map<string, number>();
+    let offset = 0;
+    for (const section of sections) {
+      offsets.set(section.key, offset);
+      offset += section.data.length;
+    }
+    return offsets;
+  }, [sections]);
+
+  // Rows may contain skeletons of loading items
+  const listProps = sectionListProps as
+    | Partial<
+        SectionListProps<T | SkeletonRow, InfiniteScrollSection<T | SkeletonRow>>
+      >
+    | undefined;
+
+  // SectionList does not allow changing onViewableItemsChanged, so keep it
+  // stable; indices are converted from per-section to list indices
+  const latestRef = React.useRef({ sectionOffsets, setVisibleRange, listProps });
+  latestRef.current = { sectionOffsets, setVisibleRange, listProps };
+  const handleViewableItemsChanged = React.useRef(
+    (info: { viewableItems: ViewToken[]; changed: ViewToken[] }) => {
+      const latest = latestRef.current;
+      const indices = info.viewableItems
+        .filter(
+          (token) =>
+            token.index !== null && token.section && !isSkeletonRow(token.item),
+        )
+        .map(
+          (token) =>
+            (latest.sectionOffsets.get(token.section.key) ?? 0) +
+            (token.index as number),
+        );
+      if (indices.length > 0) {
+        latest.setVisibleRange(Math.min(...indices), Math.max(...indices));
+      }
+      latest.listProps?.onViewableItemsChanged?.(info);
+    },
+  ).current;
+
+  const bidirectional = isBidirectional(config);
+
+  const getItemKey = React.useCallback(
+    (item: T, index: number): string => {
+      if (config.getItemKey) {
+        return config.getItemKey(item, index);
+      }
+      return `item-${index}`;
+    },
+    [config],
+  );
+
+  const status = renderListStatus(scroll, items.length === 0, props);
+  if (status) {
+    return status;
+  }
+
+  // Skeletons form a headerless section in place of, or after, the sections
+  const skeletonRows = getSkeletonRows(scroll, props);
+  const listSections: InfiniteScrollSection<T | SkeletonRow>[] =
+    state.isLoading ? [] : [...sections];
+  if (skeletonRows.length > 0) {
+    listSections.push({ key: "skeleton", title: "", data: skeletonRows });
+  }
+
+  // With an item threshold, onEndReached is a fallback
+  const threshold = calculateEndReachedThreshold(
+    config.thresholdMode === "viewport" ? config.threshold : undefined,
+  );
+
+  // Render list
+  return withBanners(
+    <SectionList<T | SkeletonRow, InfiniteScrollSection<T | SkeletonRow>>
+      sections={listSections}
+      renderItem={({ item, index, section }) =>
+        isSkeletonRow(item)
+          ? renderSkeletonRow(item, props)
+          : renderItem(item, (sectionOffsets.get(section.key) ?? 0) + index)
+      }
+      renderSectionHeader={({ section }) =>
+        isSkeletonRow(section.data[0])
+          ? null
+          : renderSectionHeader(section as InfiniteScrollSection<T>)
+      }
+      stickySectionHeadersEnabled={stickySectionHeaders}
+      keyExtractor={(item, index) =>
+        isSkeletonRow(item) ? item.key : getItemKey(item, index)
+      }
+      onEndReached={handleEndReached}
+      onEndReachedThreshold={threshold}
+      onStartReached={bidirectional ? handleStartReached : undefined}
+      onStartReachedThreshold={threshold}
+      // Keep the visible items anchored when older pages are prepended
+      maintainVisibleContentPosition={
+        bidirectional ? { minIndexForVisible: 0 } : undefined
+      }
+      onRefresh={refresh}
+      refreshing={state.isRefreshing}
+      ListHeaderComponent={renderListHeader(scroll, props)}
+      ListFooterComponent={renderListFooter(scroll, props)}
+      {...listProps}
+      onViewableItemsChanged={
+        config.thresholdMode === "viewport"
+          ? listProps?.onViewableItemsChanged
+          : handleViewableItemsChanged
+      }
+    />,
+    scroll,
+    props,
+  );
+}
@@ -0,0 +1,43 @@
+/**
+ * Inline Error Component
+ *
+ * Presentation component for errors shown alongside loaded items
+ * Follows SOLID, DRY, KISS principles
+ */
+
+import React from "react";
+import { View, Text, StyleSheet } from "react-native";
+
+interface InlineErrorProps {
+  error: string;
+  onRetry: () => void;
+}
+
+export const InlineError: React.FC<InlineErrorProps> = ({ error, onRetry }) => (
+  <View style={styles.inlineContainer}>
+    <Text style={styles.errorText} numberOfLines={2}>
+      {error}
+    </Text>
+    <Text style={styles.retryText} onPress={onRetry}>
+      Tap to retry
+    </Text>
+  </View>
+);
+
+const styles = StyleSheet.create({
+  inlineContainer: {
+    padding: 16,
+    alignItems: "center",
+  },
+  errorText: {
+    fontSize: 14,
+    color: "#d32f2f",
+    textAlign: "center",
+  },
+  retryText: {
+    fontSize: 14,
+    color: "#1976d2",
+    textAlign: "center",
+    marginTop: 4,
+  },
+});
@@ -0,0 +1,229 @@
+/**
+ * List Status Rendering
+ *
+ * Loading, empty and error handling shared by the list components
+ * Follows SOLID, DRY, KISS principles
+ */
+
+import React from "react";
+import { StyleSheet, View } from "react-native";
+import type { InfiniteScrollListBaseProps } from "../../domain/interfaces/infinite-scroll-list-props";
+import type { InfiniteScrollError } from "../../domain/types/infinite-scroll-error";
+import type { UseInfiniteScrollReturn } from "../../domain/types/infinite-scroll-return";
+import { createSkeletonRows } from "../../domain/utils/skeleton-utils";
+import type { SkeletonRow } from "../../domain/utils/skeleton-utils";
+import { Loading } from "./loading";
+import { LoadingMore } from "./loading-more";
+import { Empty } from "./empty";
+import { Error } from "./error";
+import { InlineError } from "./inline-error";
+import { SkeletonItem } from "./skeleton";
+import { NewItemsBanner } from "./new-items-banner";
+import { OfflineBanner } from "./offline-banner";
+
+type StatusProps = Pick<
+  InfiniteScrollListBaseProps<unknown>,
+  | "loadingComponent"
+  | "loadingMoreComponent"
+  | "loadingPreviousComponent"
+  | "emptyComponent"
+  | "errorComponent"
+  | "inlineErrorComponent"
+  | "ListHeaderComponent"
+  | "ListFooterComponent"
+  | "skeleton"
+  | "renderPlaceholder"
+  | "placeholderCount"
+  | "loadMorePlaceholderCount"
+  | "newItemsBanner"
+  | "offlineBanner"
+>;
+
+type ListControls<T> = Pick<
+  UseInfiniteScrollReturn<T>,
+  "state" | "loadMore" | "loadPrevious" | "refresh" | "showNewItems"
+>;
+
+/**
+ * Render error component
+ */
+function renderErrorComponent(
+  error: InfiniteScrollError,
+  retry: () => void,
+  errorComponent?: StatusProps["errorComponent"],
+): React.ReactElement {
+  if (errorComponent) {
+    return errorComponent(error.message, retry, error);
+  }
+  return <Error error={error.message} onRetry={retry} />;
+}
+
+/**
+ * Render inline error row (items stay visible)
+ */
+function renderInlineError(
+  error: InfiniteScrollError | null,
+  retry: () => void,
+  inlineErrorComponent?: StatusProps["inlineErrorComponent"],
+): React.ReactElement | null {
+  if (!error) return null;
+  if (inlineErrorComponent) {
+    return inlineErrorComponent(error, retry);
+  }
+  return <InlineError error={error.message} onRetry={retry} />;
+}
+
+/**
+ * Check if skeleton rows replace the loading indicators
+ */
+function usesSkeleton(props: StatusProps): boolean {
+  return props.skeleton ?? props.renderPlaceholder !== undefined;
+}
+
+/**
+ * Skeleton rows to render in place of, or after, the items
+ * Empty unless skeletons are enabled and a page is loading
+ */
+export function getSkeletonRows<T>(
+  { state }: Pick<ListControls<T>, "state">,
+  props: StatusProps,
+): SkeletonRow[] {
+  if (!usesSkeleton(props)) return [];
+  if (state.isLoading) {
+    return createSkeletonRows(props.placeholderCount ?? 6, "skeleton");
+  }
+  if (state.isLoadingMore) {
+    return createSkeletonRows(
+      props.loadMorePlaceholderCount ?? 2,
+      "skeleton-more",
+    );
+  }
+  return [];
+}
+
+/**
+ * Render a skeleton row
+ */
+export function renderSkeletonRow(
+  row: SkeletonRow,
+  props: StatusProps,
+): React.ReactElement {
+  return props.renderPlaceholder?.(row.index) ?? <SkeletonItem />;
+}
+
+/**
+ * Render the full-screen loading, error or empty state
+ * @returns null when the list itself should be rendered
+ */
+export function renderListStatus<T>(
+  { state, refresh }: ListControls<T>,
+  isEmpty: boolean,
+  props: StatusProps,
+): React.ReactElement | null {
+  // Loading state (skeleton rows are rendered by the list itself)
+  if (state.isLoading && !usesSkeleton(props)) {
+    return props.loadingComponent || <Loading />;
+  }
+
+  // Error state (only when there are no items to keep on screen)
+  if (state.initialError && isEmpty && !state.isLoading) {
+    return renderErrorComponent(state.initialError, refresh, props.errorComponent);
+  }
+
+  // Empty state
+  if (isEmpty && !state.isLoading) {
+    return props.emptyComponent || <Empty />;
+  }
+
+  return null;
+}
+
+/**
+ * Render the list header: inline refresh/previous errors, loading previous
+ */
+export function renderListHeader<T>(
+  { state, loadPrevious, refresh }: ListControls<T>,
+  props: StatusProps,
+): React.ReactElement {
+  return (
+    <>
+      {renderInlineError(
+        state.refreshError ?? state.initialError,
+        refresh,
+        props.inlineErrorComponent,
+      )}
+      {renderInlineError(
+        state.loadPreviousError,
+        loadPrevious,
+        props.inlineErrorComponent,
+      )}
+      {state.isLoadingPrevious &&
+        (props.loadingPreviousComponent || <LoadingMore />)}
+      {props.ListHeaderComponent}
+    </>
+  );
+}
+
+/**
+ * Render the list footer: loading more, inline load-more error
+ */
+export function renderListFooter<T>(
+  { state, loadMore }: ListControls<T>,
+  props: StatusProps,
+): React.ReactElement {
+  return (
+    <>
+      {props.ListFooterComponent}
+      {state.isLoadingMore &&
+        !usesSkeleton(props) &&
+        (props.loadingMoreComponent || <LoadingMore />)}
+      {renderInlineError(state.loadMoreError, loadMore, props.inlineErrorComponent)}
+    </>
+  );
+}
+
+/**
+ * Wrap a list with the offline banner and the banner announcing items
+ * found by head polling
+ * The wrapper stays while either is configured, so the list is not
+ * remounted when a banner appears
+ */
+export function withBanners<T, P>(
+  list: React.ReactElement,
+  { state, showNewItems }: Pick<ListControls<T>, "state" | "showNewItems">,
+  props: StatusProps & Pick<InfiniteScrollListBaseProps<T, P>, "config">,
+): React.ReactElement {
+  const showsNewItems =
+    props.config.headPolling !== undefined && props.newItemsBanner !== null;
+  const showsOffline =
+    props.config.connectivity !== undefined && props.offlineBanner !== null;
+  if (!showsNewItems && !showsOffline) {
+    return list;
+  }
+
+  let newItemsBanner: React.ReactElement | null = null;
+  if (showsNewItems && state.newItemsCount > 0) {
+    newItemsBanner = props.newItemsBanner ? (
+      props.newItemsBanner(state.newItemsCount, showNewItems)
+    ) : (
+      <NewItemsBanner count={state.newItemsCount} onPress={showNewItems} />
+    );
+  }
+
+  // Items stay interactive below the offline banner
+  return (
+    <View style={styles.container}>
+      {showsOffline && state.isOffline && (props.offlineBanner || <OfflineBanner />)}
+      <View style={styles.container}>
+        {list}
+        {newItemsBanner}
+      </View>
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+  },
+});
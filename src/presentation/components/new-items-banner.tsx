@@ -0,0 +1,52 @@
+/**
+ * New Items Banner Component
+ *
+ * Presentation component announcing items found by head polling
+ * Follows SOLID, DRY, KISS principles
+ */
+
+import React from "react";
+import { Text, TouchableOpacity, StyleSheet, View } from "react-native";
+
+interface NewItemsBannerProps {
+  count: number;
+  onPress: () => void;
+}
+
+export const NewItemsBanner: React.FC<NewItemsBannerProps> = ({
+  count,
+  onPress,
+}) => (
+  <View style={styles.container} pointerEvents="box-none">
+    <TouchableOpacity
+      style={styles.pill}
+      onPress={onPress}
+      accessibilityRole="button"
+    >
+      <Text style={styles.text}>
+        {count} new {count === 1 ? "post" : "posts"}
+      </Text>
+    </TouchableOpacity>
+  </View>
+);
+
+const styles = StyleSheet.create({
+  container: {
+    position: "absolute",
+    top: 8,
+    left: 0,
+    right: 0,
+    alignItems: "center",
+  },
+  pill: {
+    paddingVertical: 8,
+    paddingHorizontal: 16,
+    borderRadius: 16,
+    backgroundColor: "#007AFF",
+  },
+  text: {
+    fontSize: 14,
+    fontWeight: "600",
+    color: "#fff",
+  },
+});
@@ -0,0 +1,28 @@
+/**
+ * Offline Banner Component
+ *
+ * Presentation component shown above the list while the device is offline
+ * Follows SOLID, DRY, KISS principles
+ */
+
+import React from "react";
+import { View, Text, StyleSheet } from "react-native";
+
+export const OfflineBanner: React.FC = () => (
+  <View style={styles.container} accessibilityRole="alert">
+    <Text style={styles.text}>You're offline. Showing saved items.</Text>
+  </View>
+);
+
+const styles = StyleSheet.create({
+  container: {
+    paddingVertical: 8,
+    paddingHorizontal: 16,
+    backgroundColor: "#333",
+    alignItems: "center",
+  },
+  text: {
+    fontSize: 13,
+    color: "#fff",
+  },
+});
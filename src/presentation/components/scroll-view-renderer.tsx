@@ -0,0 +1,101 @@
+/**
+ * ScrollView Renderer
+ *
+ * Non-virtualized list renderer for short lists and nested scroll views
+ * Follows SOLID, DRY, KISS principles
+ */
+
+import React from "react";
+import { RefreshControl, ScrollView, View } from "react-native";
+import type {
+  LayoutChangeEvent,
+  NativeScrollEvent,
+  NativeSyntheticEvent,
+} from "react-native";
+import type { ListRendererProps } from "../../domain/interfaces/list-renderer";
+
+/**
+ * Renders every row in a ScrollView
+ * Edge callbacks fire once per content size, like FlatList; viewable rows
+ * are not reported, so maxPagesInMemory has no effect
+ */
+export function ScrollViewRenderer<T>({
+  data,
+  renderItem,
+  keyExtractor,
+  onEndReached,
+  onEndReachedThreshold,
+  onStartReached,
+  onStartReachedThreshold = onEndReachedThreshold,
+  maintainVisibleContentPosition,
+  onRefresh,
+  refreshing,
+  ListHeaderComponent,
+  ListFooterComponent,
+  extraProps,
+}: ListRendererProps<T>): React.ReactElement {
+  // Content height at the last edge callback, to fire once per new content
+  const endReachedAtRef = React.useRef<number | null>(null);
+  const startReachedAtRef = React.useRef<number | null>(null);
+  const metricsRef = React.useRef({ offset: 0, visible: 0, content: 0 });
+
+  // Also runs on layout and content changes: short content never scrolls
+  const checkEdges = () => {
+    const { offset, visible, content } = metricsRef.current;
+    if (visible === 0 || content === 0) return;
+
+    const distanceFromEnd = content - visible - offset;
+    if (
+      distanceFromEnd <= onEndReachedThreshold * visible &&
+      endReachedAtRef.current !== content
+    ) {
+      endReachedAtRef.current = content;
+      onEndReached();
+    }
+
+    if (
+      onStartReached &&
+      offset <= onStartReachedThreshold * visible &&
+      startReachedAtRef.current !== content
+    ) {
+      startReachedAtRef.current = content;
+      onStartReached();
+    }
+  };
+
+  const handleScroll = (event: NativeSyntheticEvent<NativeScrollEvent>) => {
+    const { contentOffset, contentSize, layoutMeasurement } = event.nativeEvent;
+    metricsRef.current = {
+      offset: contentOffset.y,
+      visible: layoutMeasurement.height,
+      content: contentSize.height,
+    };
+    checkEdges();
+  };
+
+  return (
+    <ScrollView
+      onScroll={handleScroll}
+      scrollEventThrottle={16}
+      onLayout={(event: LayoutChangeEvent) => {
+        metricsRef.current.visible = event.nativeEvent.layout.height;
+        checkEdges();
+      }}
+      onContentSizeChange={(_width: number, height: number) => {
+        metricsRef.current.content = height;
+        checkEdges();
+      }}
+      maintainVisibleContentPosition={maintainVisibleContentPosition}
+      refreshControl={
+        <RefreshControl refreshing={refreshing} onRefresh={onRefresh} />
+      }
+      {...extraProps}
+    >
+      {ListHeaderComponent}
+      {data.map((item, index) => (
+        <View key={keyExtractor(item, index)}>{renderItem({ item, index })}</View>
+      ))}
+      {ListFooterComponent}
+    </ScrollView>
+  );
+}
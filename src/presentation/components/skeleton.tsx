@@ -0,0 +1,121 @@
+/**
+ * Skeleton Components
+ *
+ * Presentation components for content that is still loading
+ * Follows SOLID, DRY, KISS principles
+ */
+
+import React from "react";
+import { AccessibilityInfo, Animated, StyleSheet, View } from "react-native";
+import type { DimensionValue, LayoutChangeEvent, StyleProp, ViewStyle } from "react-native";
+
+interface SkeletonProps {
+  width?: DimensionValue;
+  height?: DimensionValue;
+  borderRadius?: number;
+  style?: StyleProp<ViewStyle>;
+}
+
+/**
+ * Whether the user asked the OS to reduce motion
+ */
+function useReduceMotion(): boolean {
+  const [reduceMotion, setReduceMotion] = React.useState(false);
+
+  React.useEffect(() => {
+    let mounted = true;
+    AccessibilityInfo.isReduceMotionEnabled()
+      .then((enabled) => {
+        if (mounted) setReduceMotion(enabled);
+      })
+      .catch(() => undefined);
+    const subscription = AccessibilityInfo.addEventListener(
+      "reduceMotionChanged",
+      setReduceMotion,
+    );
+    return () => {
+      mounted = false;
+      subscription.remove();
+    };
+  }, []);
+
+  return reduceMotion;
+}
+
+/**
+ * Block with a shimmer sweeping across it
+ * Static when reduced motion is enabled
+ */
+export const Skeleton: React.FC<SkeletonProps> = ({
+  width = "100%",
+  height = 16,
+  borderRadius = 4,
+  style,
+}) => {
+  const reduceMotion = useReduceMotion();
+  const [blockWidth, setBlockWidth] = React.useState(0);
+  const progress = React.useRef(new Animated.Value(0)).current;
+
+  React.useEffect(() => {
+    if (reduceMotion || blockWidth === 0) return;
+    const animation = Animated.loop(
+      Animated.timing(progress, {
+        toValue: 1,
+        duration: 1200,
+        useNativeDriver: true,
+      }),
+    );
+    animation.start();
+    return () => {
+      animation.stop();
+      progress.setValue(0);
+    };
+  }, [reduceMotion, blockWidth, progress]);
+
+  const translateX = progress.interpolate({
+    inputRange: [0, 1],
+    outputRange: [-blockWidth, blockWidth],
+  });
+
+  return (
+    <View
+      style={[styles.block, { width, height, borderRadius }, style]}
+      onLayout={(event: LayoutChangeEvent) =>
+        setBlockWidth(event.nativeEvent.layout.width)
+      }
+    >
+      {!reduceMotion && blockWidth > 0 && (
+        <Animated.View
+          style={[styles.shimmer, { transform: [{ translateX }] }]}
+        />
+      )}
+    </View>
+  );
+};
+
+/**
+ * Default skeleton row: a title line and a shorter subtitle line
+ */
+export const SkeletonItem: React.FC = () => (
+  <View style={styles.item}>
+    <Skeleton height={16} width="70%" />
+    <Skeleton height={12} width="40%" style={styles.subtitle} />
+  </View>
+);
+
+const styles = StyleSheet.create({
+  block: {
+    backgroundColor: "#e1e1e1",
+    overflow: "hidden",
+  },
+  shimmer: {
+    ...StyleSheet.absoluteFillObject,
+    backgroundColor: "rgba(255, 255, 255, 0.4)",
+  },
+  item: {
+    padding: 16,
+  },
+  subtitle: {
+    marginTop: 8,
+  },
+});
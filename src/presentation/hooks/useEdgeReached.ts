@@ -0,0 +1,44 @@
+/**
+ * useEdgeReached Hook
+ * SOLID: Single Responsibility - Load more or previous items at the list edges
+ */
+
+import { useCallback } from "react";
+import type { InfiniteScrollConfig } from "../../domain/types/infinite-scroll-config";
+import type { UseInfiniteScrollReturn } from "../../domain/types/infinite-scroll-return";
+
+/**
+ * onEndReached and onStartReached handlers for a list
+ * Failed pages are retried from the inline error row, not by scrolling
+ */
+export function useEdgeReached<T, P>(
+  config: InfiniteScrollConfig<T, P>,
+  {
+    state,
+    loadMore,
+    loadPrevious,
+    canLoadMore,
+    canLoadPrevious,
+  }: Pick<
+    UseInfiniteScrollReturn<T>,
+    "state" | "loadMore" | "loadPrevious" | "canLoadMore" | "canLoadPrevious"
+  >,
+): { handleEndReached: () => void; handleStartReached: () => void } {
+  const handleEndReached = useCallback(() => {
+    if (canLoadMore && !state.loadMoreError && config.autoLoad !== false) {
+      loadMore();
+    }
+  }, [canLoadMore, state.loadMoreError, loadMore, config.autoLoad]);
+
+  const handleStartReached = useCallback(() => {
+    if (
+      canLoadPrevious &&
+      !state.loadPreviousError &&
+      config.autoLoad !== false
+    ) {
+      loadPrevious();
+    }
+  }, [canLoadPrevious, state.loadPreviousError, loadPrevious, config.autoLoad]);
+
+  return { handleEndReached, handleStartReached };
+}
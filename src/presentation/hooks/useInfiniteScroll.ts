@@ -1,177 +1,134 @@
 /**
  * useInfiniteScroll Hook
- * Supports page-based and cursor-based pagination
+ * Binds an InfiniteScrollController to a React component
  * SOLID: Single Responsibility - Orchestrate infinite scroll
  */
 
-import { useState, useCallback, useEffect, useRef } from "react";
+import {
+  useState,
+  useContext,
+  useEffect,
+  useMemo,
+  useSyncExternalStore,
+} from "react";
+import { AppState } from "react-native";
 import type { InfiniteScrollConfig } from "../../domain/types/infinite-scroll-config";
-import type { InfiniteScrollState } from "../../domain/types/infinite-scroll-state";
 import type { UseInfiniteScrollReturn } from "../../domain/types/infinite-scroll-return";
-import { loadData, loadMoreData, isCursorMode } from "./pagination.helper";
+import { hashQueryKey } from "../../domain/utils/query-key-utils";
+import { createInfiniteScrollController } from "../../application/controllers/infinite-scroll.controller";
+import { DEFAULT_CONFIG } from "../../application/controllers/pagination.helper";
+import { InfiniteScrollContext } from "../components/infinite-scroll-provider";
 
-const DEFAULT_CONFIG = {
-  pageSize: 20,
-  threshold: 5,
-  autoLoad: true,
-  initialPage: 0,
-};
-
-function createInitialState<T>(
-  initialPage: number,
-  totalItems?: number,
-): InfiniteScrollState<T> {
-  return {
-    items: [],
-    pages: [],
-    currentPage: initialPage,
-    cursor: null,
-    hasMore: true,
-    isLoading: true,
-    isLoadingMore: false,
-    isRefreshing: false,
-    error: null,
-    totalItems,
-  };
-}
-
-export function useInfiniteScroll<T>(
-  config: InfiniteScrollConfig<T>,
+export function useInfiniteScroll<T, P = unknown>(
+  config: InfiniteScrollConfig<T, P>,
 ): UseInfiniteScrollReturn<T> {
-  const {
-    pageSize = DEFAULT_CONFIG.pageSize,
-    autoLoad = DEFAULT_CONFIG.autoLoad,
-    totalItems,
-    getItemKey,
-  } = config;
+  const { autoLoad = DEFAULT_CONFIG.autoLoad, queryDebounce = 0 } = config;
 
-  const initialPage =
-    "initialPage" in config ? config.initialPage || 0 : DEFAULT_CONFIG.initialPage;
-
-  const [state, setState] = useState<InfiniteScrollState<T>>(() =>
-    createInitialState<T>(initialPage, totalItems),
-  );
-
-  const isLoadingRef = useRef(false);
-  const isMountedRef = useRef(true);
+  // Lists with an explicit queryKey inside a provider share their controller
+  const client = useContext(InfiniteScrollContext);
+  const shared = client !== null && config.queryKey !== undefined;
+  const queryKey = hashQueryKey(config.queryKey);
+  // Shared query shown by the list (lags behind queryKey while debouncing)
+  const [sharedKey, setSharedKey] = useState(queryKey);
 
   useEffect(() => {
-    isMountedRef.current = true;
-    return () => {
-      isMountedRef.current = false;
-    };
-  }, []);
-
-  const loadInitial = useCallback(async () => {
-    if (isLoadingRef.current) return;
-    isLoadingRef.current = true;
-
-    if (isMountedRef.current) {
-      setState((prev) => ({ ...prev, isLoading: true, error: null }));
-    }
-
-    try {
-      const newState = await loadData(config, initialPage, pageSize, totalItems);
-      if (isMountedRef.current) {
-        setState(newState);
-      }
-    } catch (error) {
-      if (isMountedRef.current) {
-        setState((prev) => ({
-          ...prev,
-          isLoading: false,
-          error: error instanceof Error ? error.message : "Failed to load data",
-        }));
-      }
-    } finally {
-      isLoadingRef.current = false;
-    }
-  }, [config, initialPage, pageSize, totalItems]);
-
-  const loadMore = useCallback(async () => {
-    if (
-      isLoadingRef.current ||
-      !state.hasMore ||
-      state.isLoadingMore ||
-      state.isLoading
-    ) {
-      return;
-    }
-
-    if (isCursorMode(config) && !state.cursor) return;
+    if (!shared || queryKey === sharedKey) return;
+    const timer = setTimeout(() => setSharedKey(queryKey), queryDebounce);
+    return () => clearTimeout(timer);
+  }, [shared, queryKey, sharedKey, queryDebounce]);
 
-    isLoadingRef.current = true;
-
-    if (isMountedRef.current) {
-      setState((prev) => ({ ...prev, isLoadingMore: true, error: null }));
-    }
+  const [localController] = useState(() =>
+    createInfiniteScrollController<T, P>(config),
+  );
+  const controller = useMemo(
+    () =>
+      client && shared
+        ? client.getController<T, P>(sharedKey, config)
+        : localController,
+    // The config is passed on every render below
+    [client, shared, sharedKey, localController],
+  );
 
-    try {
-      const updates = await loadMoreData(config, state, pageSize);
-      if (isMountedRef.current) {
-        setState((prev) => ({ ...prev, ...updates }));
-      }
-    } catch (error) {
-      if (isMountedRef.current) {
-        setState((prev) => ({
-          ...prev,
-          isLoadingMore: false,
-          error:
-            error instanceof Error ? error.message : "Failed to load more items",
-        }));
-      }
-    } finally {
-      isLoadingRef.current = false;
+  // Inline config objects are fine: only a changed query key reloads the list
+  useEffect(() => {
+    if (!shared || queryKey === sharedKey) {
+      controller.setConfig(config);
     }
-  }, [config, state, pageSize]);
+  });
 
-  const refresh = useCallback(async () => {
-    if (isLoadingRef.current) return;
-    isLoadingRef.current = true;
+  const state = useSyncExternalStore(controller.subscribe, controller.getSnapshot);
 
-    if (isMountedRef.current) {
-      setState((prev) => ({ ...prev, isRefreshing: true, error: null }));
-    }
-
-    try {
-      const newState = await loadData(config, initialPage, pageSize, totalItems);
-      if (isMountedRef.current) {
-        setState(newState);
-      }
-    } catch (error) {
-      if (isMountedRef.current) {
-        setState((prev) => ({
-          ...prev,
-          isRefreshing: false,
-          error:
-            error instanceof Error ? error.message : "Failed to refresh data",
-        }));
-      }
-    } finally {
-      isLoadingRef.current = false;
+  useEffect(() => {
+    const detach = controller.attach();
+    // A shared query loaded by another list is shown as is
+    if (autoLoad && controller.getSnapshot().pages.length === 0) {
+      controller.loadInitial();
     }
-  }, [config, initialPage, pageSize, totalItems]);
+    return detach;
+  }, [controller, autoLoad]);
 
-  const reset = useCallback(() => {
-    isLoadingRef.current = false;
-    setState(createInitialState<T>(initialPage, totalItems));
-  }, [initialPage, totalItems]);
+  // Head polling pauses while the app is in the background; "inactive"
+  // (iOS control center, app switcher) still counts as foreground
+  useEffect(() => {
+    controller.setAppActive(AppState.currentState !== "background");
+    const subscription = AppState.addEventListener("change", (appState) =>
+      controller.setAppActive(appState !== "background"),
+    );
+    return () => subscription.remove();
+  }, [controller]);
+
+  // Realtime subscriptions stop while the screen is not focused
+  const { focusSource } = config;
+  useEffect(() => {
+    if (!focusSource) return;
+    controller.setFocused(focusSource.isFocused());
+    const unsubscribe = focusSource.subscribe(controller.setFocused);
+    return () => {
+      unsubscribe();
+      controller.setFocused(true);
+    };
+  }, [controller, focusSource]);
 
+  // Loading more waits while the device is offline
+  const { connectivity } = config;
   useEffect(() => {
-    if (autoLoad) {
-      loadInitial();
-    }
-  }, [autoLoad, loadInitial]);
+    if (!connectivity) return;
+    controller.setOnline(connectivity.isOnline());
+    const unsubscribe = connectivity.subscribe((online) =>
+      controller.setOnline(online),
+    );
+    return () => {
+      unsubscribe();
+      controller.setOnline(true, { resume: false });
+    };
+  }, [controller, connectivity]);
+
+  const rows = useMemo(() => controller.getRows(), [controller, state]);
 
   const canLoadMore =
     state.hasMore && !state.isLoadingMore && !state.isLoading;
 
+  const canLoadPrevious =
+    state.hasPrevious && !state.isLoadingPrevious && !state.isLoading;
+
   return {
     items: state.items,
+    rows,
     state,
-    loadMore,
-    refresh,
-    reset,
+    loadMore: controller.loadMore,
+    loadPrevious: controller.loadPrevious,
+    refresh: controller.refresh,
+    reset: controller.reset,
+    insertItem: controller.insertItem,
+    updateItem: controller.updateItem,
+    removeItem: controller.removeItem,
+    setItems: controller.setItems,
+    showNewItems: controller.showNewItems,
+    revalidate: controller.revalidate,
+    optimistic: controller.optimistic,
+    setVisibleRange: controller.setVisibleRange,
     canLoadMore,
+    canLoadPrevious,
+    isOffline: state.isOffline,
   };
 }
@@ -0,0 +1,22 @@
+/**
+ * useInfiniteScrollClient Hook
+ * SOLID: Single Responsibility - Access the client of the nearest provider
+ */
+
+import { useContext } from "react";
+import { InfiniteScrollContext } from "../components/infinite-scroll-provider";
+import type { InfiniteScrollClient } from "../../application/controllers/infinite-scroll-client";
+
+/**
+ * Get the client of the nearest InfiniteScrollProvider
+ * @throws If called outside an InfiniteScrollProvider
+ */
+export function useInfiniteScrollClient(): InfiniteScrollClient {
+  const client = useContext(InfiniteScrollContext);
+  if (!client) {
+    throw new Error(
+      "useInfiniteScrollClient must be used within an InfiniteScrollProvider",
+    );
+  }
+  return client;
+}